@@ -22,12 +22,19 @@ export default tseslint.config(
 		},
 	},
 	...obsidianmd.configs.recommended,
+	{
+		plugins: { obsidianmd },
+		rules: {
+			"obsidianmd/ui/sentence-case": ["error", { brands: ["Base64"] }],
+		},
+	},
 	globalIgnores([
 		"node_modules",
 		"dist",
 		"esbuild.config.mjs",
 		"eslint.config.js",
 		"version-bump.mjs",
+		"scripts",
 		"versions.json",
 		"main.js",
 	]),
@@ -0,0 +1,109 @@
+// 解析性能基准：在合成的大笔记上比较整篇解析和按可见范围增量解析的耗时
+// 用法：pnpm bench [笔记大小，单位 MB，默认 50]
+import esbuild from "esbuild";
+import process from "process";
+import { randomBytes } from "crypto";
+import { performance } from "perf_hooks";
+
+const targetMB = Number(process.argv[2] ?? 50);
+const ITERATIONS = 20;
+// 约等于编辑器一屏可见的字符数
+const VIEWPORT_SIZE = 4000;
+
+// 将源码打包到内存中再加载，无需额外的编译步骤
+const result = await esbuild.build({
+	stdin: {
+		contents: `
+			export { parseImages } from "./src/image-parser";
+			export { ImageRangeCache } from "./src/image-range-cache";
+			export { Text, ChangeSet } from "@codemirror/state";
+		`,
+		resolveDir: process.cwd(),
+		loader: "ts",
+	},
+	bundle: true,
+	write: false,
+	format: "esm",
+	platform: "node",
+	logLevel: "error",
+});
+const { parseImages, ImageRangeCache, Text, ChangeSet } = await import(
+	"data:text/javascript;base64," +
+		Buffer.from(result.outputFiles[0].text).toString("base64")
+);
+
+// 生成笔记：每段文字之后跟一张 1-2 MB 的图片，并夹杂少量小图片
+function createNote(sizeMB) {
+	const lines = [];
+	let size = 0;
+	let index = 0;
+	while (size < sizeMB * 1024 * 1024) {
+		const text = `第 ${index} 段文字，用于模拟正文内容。`.repeat(20);
+		const bytes = 1024 * 1024 + (index % 4) * 256 * 1024;
+		const image = `![图片 ${index}](data:image/png;base64,${randomBytes(bytes).toString("base64")})`;
+		const small = `<img src="data:image/gif;base64,${randomBytes(512).toString("base64")}" alt="小图">`;
+		lines.push(`## 标题 ${index}`, "", text, "", image, "", small, "");
+		size += text.length + image.length + small.length;
+		index++;
+	}
+	return lines;
+}
+
+function measure(name, fn) {
+	fn();
+	const times = [];
+	for (let i = 0; i < ITERATIONS; i++) {
+		const start = performance.now();
+		fn(i);
+		times.push(performance.now() - start);
+	}
+	times.sort((a, b) => a - b);
+	const median = times[Math.floor(times.length / 2)];
+	const p95 = times[Math.floor(times.length * 0.95)];
+	console.log(
+		`${name.padEnd(28)} 中位数 ${median.toFixed(2).padStart(9)} ms   p95 ${p95.toFixed(2).padStart(9)} ms`,
+	);
+}
+
+console.log(`生成约 ${targetMB} MB 的笔记…`);
+let doc = Text.of(createNote(targetMB));
+console.log(`${(doc.length / 1024 / 1024).toFixed(1)} MB，${doc.lines} 行\n`);
+
+// 可见范围从文档中间某段正文开始，包含其后的图片
+const textLine = Math.floor(doc.lines / 16) * 8 + 3;
+const viewportFrom = doc.line(textLine).from;
+const viewport = () => [
+	viewportFrom,
+	Math.min(doc.length, viewportFrom + VIEWPORT_SIZE),
+];
+
+// 旧实现：每次修改都拼接整个文档并重新解析
+measure("整篇解析（每次按键）", () => {
+	parseImages(doc.toString());
+});
+
+// 新实现：首次解析可见段落
+measure("可见范围首次解析", () => {
+	const cache = new ImageRangeCache();
+	cache.getImages(doc, ...viewport());
+});
+
+// 滚动：可见范围已缓存
+const cache = new ImageRangeCache();
+cache.getImages(doc, ...viewport());
+measure("可见范围命中缓存", () => {
+	cache.getImages(doc, ...viewport());
+});
+
+// 在正文末尾输入一个字符：映射缓存并只重新解析被修改的段落
+measure("输入一个字符后更新", (i) => {
+	const pos = doc.line(textLine).to;
+	const changes = ChangeSet.of(
+		{ from: pos, insert: String(i % 10) },
+		doc.length,
+	);
+	doc = changes.apply(doc);
+	cache.map(changes);
+	cache.getImages(doc, pos, pos + 1);
+	cache.getImages(doc, ...viewport());
+});
@@ -0,0 +1,384 @@
+// 解析相关模块的单元测试
+// 用法：pnpm test
+import esbuild from "esbuild";
+import assert from "assert/strict";
+import { describe, it } from "node:test";
+
+// 将源码打包到内存中再加载；obsidian 只在运行时由应用提供，这里替换为最小实现
+const result = await esbuild.build({
+	stdin: {
+		contents: `
+			export { findCodeRanges, formatMarkdownImage, parseImages, replaceImages } from "./src/image-parser";
+			export { moveImagesToReferences, inlineImageReferences } from "./src/reference-normalizer";
+			export { ImageRangeCache } from "./src/image-range-cache";
+			export { percentDecode } from "./src/data-url";
+			export { getDecodedByteSize } from "./src/image-scanner";
+			export { validateDataUrl } from "./src/image-validator";
+			export { saveImageAsAttachment, saveImageToFolder } from "./src/image-extractor";
+			export { findLocalImageLinks } from "./src/image-inliner";
+			export { Text, ChangeSet } from "@codemirror/state";
+		`,
+		resolveDir: process.cwd(),
+		loader: "ts",
+	},
+	bundle: true,
+	write: false,
+	format: "esm",
+	platform: "node",
+	logLevel: "error",
+	plugins: [
+		{
+			name: "obsidian-stub",
+			setup(build) {
+				build.onResolve({ filter: /^obsidian$/ }, () => ({
+					path: "obsidian",
+					namespace: "obsidian-stub",
+				}));
+				build.onLoad({ filter: /.*/, namespace: "obsidian-stub" }, () => ({
+					contents: `
+						export const getLanguage = () => "en";
+						export const moment = Object.assign(
+							() => ({ format: () => "20260101000000" }),
+							{ locale: () => "en" },
+						);
+						export const normalizePath = (path) => path;
+						export const arrayBufferToBase64 = () => "";
+						export class ButtonComponent {}
+						export class FuzzySuggestModal {}
+						export class MarkdownView {}
+						export class Modal {}
+						export class Notice {}
+						export class TAbstractFile {}
+						export class TFile extends TAbstractFile {}
+						export class TFolder extends TAbstractFile {}
+					`,
+					loader: "js",
+				}));
+			},
+		},
+	],
+});
+const {
+	findCodeRanges,
+	formatMarkdownImage,
+	parseImages,
+	replaceImages,
+	ImageRangeCache,
+	Text,
+	ChangeSet,
+	percentDecode,
+	getDecodedByteSize,
+	validateDataUrl,
+	saveImageAsAttachment,
+	saveImageToFolder,
+	findLocalImageLinks,
+	moveImagesToReferences,
+	inlineImageReferences,
+} = await import(
+	"data:text/javascript;base64," +
+		Buffer.from(result.outputFiles[0].text).toString("base64")
+);
+
+const PNG = "data:image/png;base64,iVBORw0KGgo=";
+const IMAGE = `![a](${PNG})`;
+
+describe("parseImages 跳过代码", () => {
+	it("忽略行内代码中的图片", () => {
+		assert.deepEqual(parseImages(`示例：\`${IMAGE}\``), []);
+		assert.deepEqual(parseImages(`\`\` ${IMAGE} \`\``), []);
+	});
+
+	it("行内代码之外的图片照常解析", () => {
+		const text = `\`code\` ${IMAGE} \`more\``;
+		const images = parseImages(text);
+		assert.equal(images.length, 1);
+		assert.equal(images[0].from, text.indexOf("!["));
+	});
+
+	it("没有配对的反引号不构成行内代码", () => {
+		assert.equal(parseImages(`\` ${IMAGE}`).length, 1);
+		assert.equal(parseImages(`\`\` ${IMAGE} \``).length, 1);
+		assert.equal(parseImages(`\\\` ${IMAGE} \``).length, 1);
+	});
+
+	it("行内代码不跨越段落", () => {
+		assert.equal(parseImages(`\`a\n\n${IMAGE}\n\nb\``).length, 1);
+	});
+
+	it("描述中包含行内代码的图片照常解析", () => {
+		assert.equal(parseImages(`![a \`b\` c](${PNG})`).length, 1);
+	});
+
+	it("忽略围栏代码块中的图片", () => {
+		const fenced = [
+			"```markdown",
+			IMAGE,
+			"",
+			`<img src="${PNG}">`,
+			`[id]: ${PNG}`,
+			"```",
+			IMAGE,
+		].join("\n");
+		const images = parseImages(fenced);
+		assert.equal(images.length, 1);
+		assert.equal(images[0].from, fenced.lastIndexOf("!["));
+
+		assert.deepEqual(parseImages(`~~~\n${IMAGE}\n~~~`), []);
+		// 结束标记必须与开始标记相同且不短于它
+		assert.deepEqual(parseImages(`\`\`\`\`\n\`\`\`\n${IMAGE}\n\`\`\`\``), []);
+		assert.deepEqual(parseImages(`~~~\n\`\`\`\n${IMAGE}\n~~~`), []);
+	});
+
+	it("未闭合的围栏代码块延续到文本末尾", () => {
+		assert.deepEqual(parseImages(`\`\`\`\n${IMAGE}\n\n${IMAGE}`), []);
+	});
+
+	it("忽略缩进代码块中的图片", () => {
+		assert.deepEqual(parseImages(`说明\n\n    ${IMAGE}`), []);
+		assert.deepEqual(parseImages(`\t${IMAGE}\n\n    ${IMAGE}`), []);
+	});
+
+	it("段落中缩进的行和嵌套列表项不是代码", () => {
+		assert.equal(parseImages(`说明\n    ${IMAGE}`).length, 1);
+		assert.equal(parseImages(`- 列表\n\n    - ${IMAGE}`).length, 1);
+	});
+
+	it("代码区间按位置排序", () => {
+		const text = "`a` text\n\n```\ncode\n```\n\n    indented\n\nend `b`";
+		const ranges = findCodeRanges(text);
+		assert.deepEqual(
+			ranges.map(([from, to]) => text.substring(from, to)),
+			["`a`", "```\ncode\n```", "    indented", "`b`"],
+		);
+	});
+
+	it("replaceImages 不改写代码中相同的文本", () => {
+		const text = `${IMAGE}\n\n\`${IMAGE}\`\n\n\`\`\`\n${IMAGE}\n\`\`\``;
+		const replaced = replaceImages(text, (image) =>
+			image.fullText === IMAGE ? "![a](a.png)" : null,
+		);
+		assert.equal(
+			replaced,
+			`![a](a.png)\n\n\`${IMAGE}\`\n\n\`\`\`\n${IMAGE}\n\`\`\``,
+		);
+	});
+});
+
+describe("ImageRangeCache 跳过围栏代码块", () => {
+	const lines = ["```", IMAGE, "", IMAGE, "```", "", IMAGE];
+
+	it("跨越空行的围栏代码块中的段落不解析", () => {
+		const doc = Text.of(lines);
+		const cache = new ImageRangeCache();
+		// 从围栏中间的段落开始查找
+		const images = cache.getImages(doc, doc.line(4).from, doc.length);
+		assert.deepEqual(
+			images.map((image) => image.from),
+			[doc.line(7).from],
+		);
+	});
+
+	it("围栏被修改后重新计算", () => {
+		let doc = Text.of(lines);
+		const cache = new ImageRangeCache();
+		assert.equal(cache.getImages(doc, 0, doc.length).length, 1);
+
+		// 删除开始标记，围栏中的图片变为普通图片
+		const changes = ChangeSet.of({ from: 0, to: 4 }, doc.length);
+		doc = changes.apply(doc);
+		cache.map(changes);
+		assert.equal(cache.updateFences(doc), true);
+		// 剩下的 ``` 开始了一个新的未闭合围栏
+		assert.equal(cache.getImages(doc, 0, doc.length).length, 2);
+	});
+
+	it("修改中出现新的围栏行时重新计算", () => {
+		let doc = Text.of([IMAGE, "", IMAGE]);
+		const cache = new ImageRangeCache();
+		assert.equal(cache.getImages(doc, 0, doc.length).length, 2);
+
+		const changes = ChangeSet.of({ from: 0, insert: "```\n" }, doc.length);
+		doc = changes.apply(doc);
+		cache.map(changes);
+		assert.equal(cache.getImages(doc, 0, doc.length).length, 0);
+	});
+});
+
+describe("未编码的 SVG data URL", () => {
+	const SVG = "data:image/svg+xml;utf8,<svg xmlns='http://www.w3.org/2000/svg' width=\"100%\"/>";
+
+	it("尖括号中的链接目标可以包含 < 和 >", () => {
+		const text = `![a](<${SVG}>)`;
+		const [image] = parseImages(text);
+		assert.equal(image?.dataUrl, SVG);
+		assert.equal(image?.to, text.length);
+		assert.equal(parseImages(`![a](<${SVG}> "标题")`)[0]?.title, "标题");
+	});
+
+	it("引用定义中的尖括号目标可以包含 < 和 >", () => {
+		const [image] = parseImages(`[logo]: <${SVG}> "标题"`);
+		assert.equal(image?.dataUrl, SVG);
+		assert.equal(image?.title, "标题");
+	});
+
+	it("无效的百分号序列原样保留", () => {
+		const decode = (data) => new TextDecoder().decode(percentDecode(data));
+		assert.equal(decode("a%20b"), "a b");
+		assert.equal(decode("100%"), "100%");
+		assert.equal(decode("%zz%e4%B8%AD"), "%zz中");
+	});
+
+	it("包含单独 % 的 SVG 可以解码和校验", () => {
+		assert.equal(validateDataUrl(SVG), null);
+		assert.equal(
+			getDecodedByteSize(SVG),
+			new TextEncoder().encode(SVG.substring(SVG.indexOf(",") + 1)).length,
+		);
+	});
+});
+
+describe("保存图片文件", () => {
+	// 记录写入的文件，路径和链接按最简单的规则生成
+	const createApp = (written) => ({
+		fileManager: {
+			getAvailablePathForAttachment: async (name) => name,
+		},
+		vault: {
+			adapter: { exists: async () => false },
+			createBinary: async (path, data) => {
+				written.push(data);
+				return { path };
+			},
+		},
+	});
+	const settings = {
+		attachmentFolder: "",
+		filenamePattern: "image",
+		linkStyle: "markdown",
+	};
+	const sourceFile = { path: "note.md", basename: "note" };
+
+	it("百分号编码的图片只写入解码后的字节", async () => {
+		const svg = "<svg xmlns='http://www.w3.org/2000/svg'/>";
+		const dataUrl = `data:image/svg+xml,${encodeURIComponent(svg)}`;
+		const written = [];
+		const image = parseImages(`![a](${dataUrl})`)[0];
+		const result = await saveImageAsAttachment(
+			createApp(written),
+			settings,
+			image,
+			sourceFile,
+		);
+		assert.equal(result.path, "image.svg");
+		assert.equal(written.length, 1);
+		assert.equal(written[0].byteLength, svg.length);
+		assert.equal(new TextDecoder().decode(written[0]), svg);
+	});
+
+	it("另存为时同样只写入解码后的字节", async () => {
+		const svg = "<svg xmlns='http://www.w3.org/2000/svg'/>";
+		const written = [];
+		const file = await saveImageToFolder(
+			createApp(written),
+			`data:image/svg+xml;utf8,${svg.replace(/'/g, "%27")}`,
+			"/",
+			"logo",
+		);
+		assert.equal(file.path, "logo.svg");
+		assert.equal(written[0].byteLength, svg.length);
+	});
+});
+
+describe("查找本地图片链接", () => {
+	it("忽略代码中的链接", () => {
+		const text = [
+			"![[a.png]]",
+			"`![[b.png]]` `![b](b.png)`",
+			"```",
+			"![[c.png]]",
+			"![c](c.png)",
+			"```",
+			"![d](d.png)",
+		].join("\n");
+		assert.deepEqual(
+			findLocalImageLinks(text).map((link) => link.linkpath),
+			["a.png", "d.png"],
+		);
+	});
+
+	it("只查找范围内的链接，代码块根据全文判断", () => {
+		const text = "```\n![[a.png]]\n\n![[b.png]]\n```\n![[c.png]]";
+		const from = text.indexOf("![[b");
+		assert.deepEqual(findLocalImageLinks(text, from), [
+			{
+				from: text.indexOf("![[c"),
+				to: text.length,
+				fullText: "![[c.png]]",
+				alt: "",
+				size: null,
+				linkpath: "c.png",
+			},
+		]);
+	});
+
+	it("保留尺寸后缀", () => {
+		const links = findLocalImageLinks(
+			"![[a.png|300]] ![[b.png|图 1|300x200]] ![[c.png|图 2]] ![d|120](d.png)",
+		);
+		assert.deepEqual(
+			links.map(({ alt, size }) => ({ alt, size })),
+			[
+				{ alt: "", size: "300" },
+				{ alt: "图 1", size: "300x200" },
+				{ alt: "图 2", size: null },
+				{ alt: "d", size: "120" },
+			],
+		);
+		assert.equal(
+			formatMarkdownImage("图 1", PNG, "300x200"),
+			`![图 1|300x200](${PNG})`,
+		);
+		assert.equal(parseImages(`![图 1|300x200](${PNG})`)[0]?.size, "300x200");
+	});
+});
+
+describe("引用定义转换", () => {
+	it("标题不同的相同图片使用各自的定义", () => {
+		const text = `![a](${PNG} "一")\n\n![b](${PNG} "二")\n\n![c](${PNG} "一")`;
+		assert.deepEqual(moveImagesToReferences(text), {
+			text: `![a][img-1]\n\n![b][img-2]\n\n![c][img-1]\n\n[img-1]: ${PNG} "一"\n[img-2]: ${PNG} "二"\n`,
+			count: 3,
+		});
+	});
+
+	it("不改写代码中的图片和引用", () => {
+		const code = `\`${IMAGE}\`\n\n\`\`\`\n${IMAGE}\n![a][img-1]\n\`\`\``;
+		const moved = moveImagesToReferences(`${IMAGE}\n\n${code}`);
+		assert.equal(moved.text, `![a][img-1]\n\n${code}\n\n[img-1]: ${PNG}\n`);
+
+		const inlined = inlineImageReferences(moved.text);
+		assert.equal(inlined.text, `${IMAGE}\n\n${code}\n`);
+		assert.equal(inlined.count, 1);
+	});
+});
+
+describe("ImageRangeCache 统计图片大小", () => {
+	it("只重新统计修改过的段落", () => {
+		let doc = Text.of([IMAGE, "", "文字", "", IMAGE]);
+		const cache = new ImageRangeCache();
+		const measured = [];
+		const measure = (image) => {
+			measured.push(image.from);
+			return 10;
+		};
+		assert.deepEqual(cache.getUsage(doc, measure), { count: 2, bytes: 20 });
+		assert.equal(measured.length, 2);
+
+		const pos = doc.line(3).to;
+		const changes = ChangeSet.of({ from: pos, insert: "！" }, doc.length);
+		doc = changes.apply(doc);
+		cache.map(changes);
+		assert.deepEqual(cache.getUsage(doc, measure), { count: 2, bytes: 20 });
+		assert.equal(measured.length, 2);
+	});
+});
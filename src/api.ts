@@ -0,0 +1,224 @@
+import { App, TFile } from "obsidian";
+import type Base64ImagePlugin from "./main";
+import {
+	DataUrlInfo,
+	detectImageType,
+	normalizeImageInput,
+	parseDataUrl,
+} from "./data-url";
+import { saveImageAsAttachment } from "./image-extractor";
+import {
+	ImageMetadata,
+	readImageMetadata,
+	stripImageMetadata,
+} from "./image-metadata";
+import { readFileAsDataUrl } from "./image-inliner";
+import { ImageChanges, ParsedImage, rewriteImage } from "./image-parser";
+import type { Base64ImageMatch } from "./image-scanner";
+import {
+	CanvasImageMatch,
+	getCanvasNodeText,
+	isCanvasFile,
+	isNoteOrCanvas,
+	scanFileImages,
+	updateCanvasNodeText,
+} from "./canvas";
+import {
+	ImageProblem,
+	isValidImage,
+	validateDataUrl,
+} from "./image-validator";
+import { t } from "./i18n";
+
+// 图片变化时在 app.workspace 上触发的事件
+export type Base64ImageEventType =
+	| "added"
+	| "replaced"
+	| "extracted"
+	| "deleted";
+
+export interface Base64ImageEvent {
+	// 图片所在的笔记，无法确定时为 null
+	file: TFile | null;
+	// 图片描述和 data URL；replaced 时为替换后的值
+	alt: string;
+	dataUrl: string;
+	// 替换前的 data URL，仅 replaced
+	previousDataUrl?: string;
+	// 提取出的附件路径，仅 extracted
+	path?: string;
+}
+
+// 事件名，如 base64-image:added
+export function getImageEventName(type: Base64ImageEventType): string {
+	return `base64-image:${type}`;
+}
+
+export function triggerImageEvent(
+	app: App,
+	type: Base64ImageEventType,
+	event: Base64ImageEvent,
+) {
+	app.workspace.trigger(getImageEventName(type), event);
+}
+
+// 供其他插件和脚本使用的接口，通过插件实例的 api 属性访问
+export class Base64ImageApi {
+	constructor(private plugin: Base64ImagePlugin) {}
+
+	private get app(): App {
+		return this.plugin.app;
+	}
+
+	// 列出笔记或 canvas 中的所有 Base64 图片；笔记中的位置为在全文中的偏移，
+	// canvas 中的位置相对于 nodeId 所指文本卡片的文本
+	async listImages(file: TFile): Promise<Base64ImageMatch[]> {
+		assertNoteOrCanvas(file);
+		return scanFileImages(file, await this.app.vault.cachedRead(file));
+	}
+
+	// 解析 data URL 的类型、参数和数据部分，不是 data URL 时返回 null
+	parseDataUrl(dataUrl: string): DataUrlInfo | null {
+		return parseDataUrl(dataUrl);
+	}
+
+	// 完整校验图片数据，没有问题时返回 null
+	validateDataUrl(dataUrl: string): ImageProblem | null {
+		return validateDataUrl(dataUrl);
+	}
+
+	// 是否是可以显示的图片 data URL
+	isValidImage(dataUrl: string): boolean {
+		return isValidImage(dataUrl);
+	}
+
+	// 根据 base64 数据的文件头检测 MIME 类型
+	detectImageType(base64: string): string | null {
+		return detectImageType(base64);
+	}
+
+	// 将 data URL、纯 base64 或 SVG 源码整理为 data URL，无法识别时抛出错误
+	normalizeImageInput(input: string): string {
+		return normalizeImageInput(input);
+	}
+
+	// 读取图片的真实大小、尺寸、颜色、帧数和 EXIF，无法解码时返回 null
+	readMetadata(dataUrl: string): ImageMetadata | null {
+		return readImageMetadata(dataUrl);
+	}
+
+	// 移除 EXIF、GPS 等元数据后的 data URL，没有可移除的内容时返回 null
+	stripMetadata(dataUrl: string): string | null {
+		return stripImageMetadata(dataUrl);
+	}
+
+	// 将本地图片文件编码为 data URL
+	async inlineFile(file: TFile): Promise<string> {
+		return readFileAsDataUrl(this.app, file);
+	}
+
+	// 修改笔记中一张图片的描述或数据；图片已不在原位置时抛出错误
+	async replaceImage(
+		file: TFile,
+		image: ParsedImage,
+		changes: ImageChanges,
+	) {
+		await this.rewrite(file, image, rewriteImage(image, changes));
+		triggerImageEvent(this.app, "replaced", {
+			file,
+			alt: changes.alt ?? image.alt,
+			dataUrl: changes.dataUrl ?? image.dataUrl,
+			previousDataUrl: image.dataUrl,
+		});
+	}
+
+	// 删除笔记中的一张图片
+	async deleteImage(file: TFile, image: ParsedImage) {
+		await this.rewrite(file, image, "");
+		triggerImageEvent(this.app, "deleted", {
+			file,
+			alt: image.alt,
+			dataUrl: image.dataUrl,
+		});
+	}
+
+	// 将图片保存为附件并在笔记中替换为链接，返回附件路径
+	async extractImage(file: TFile, image: ParsedImage): Promise<string> {
+		assertNoteOrCanvas(file);
+		const text = getImageText(file, await this.app.vault.read(file), image);
+		if (text === null || !isUnchanged(text, image)) {
+			throw new Error(t("error.imageChanged"));
+		}
+
+		const { path, markdown } = await saveImageAsAttachment(
+			this.app,
+			this.plugin.settings,
+			image,
+			file,
+		);
+		try {
+			await this.rewrite(file, image, markdown);
+		} catch (error) {
+			// 保存附件期间笔记被修改，删除刚创建的附件
+			const attachment = this.app.vault.getFileByPath(path);
+			if (attachment) await this.app.fileManager.trashFile(attachment);
+			throw error;
+		}
+
+		triggerImageEvent(this.app, "extracted", {
+			file,
+			alt: image.alt,
+			dataUrl: image.dataUrl,
+			path,
+		});
+		return path;
+	}
+
+	// 用新文本替换图片，写入前确认图片仍在原位置
+	private async rewrite(file: TFile, image: ParsedImage, text: string) {
+		assertNoteOrCanvas(file);
+		await this.app.vault.process(file, (data) => {
+			const replace = (source: string) => {
+				if (!isUnchanged(source, image)) {
+					throw new Error(t("error.imageChanged"));
+				}
+				return (
+					source.substring(0, image.from) +
+					text +
+					source.substring(image.to)
+				);
+			};
+			if (!isCanvasFile(file)) return replace(data);
+
+			const nodeId = (image as Partial<CanvasImageMatch>).nodeId;
+			const result = nodeId
+				? updateCanvasNodeText(data, nodeId, replace)
+				: null;
+			if (result === null) throw new Error(t("error.imageChanged"));
+			return result;
+		});
+	}
+}
+
+// 只支持 Markdown 笔记和 canvas
+function assertNoteOrCanvas(file: TFile) {
+	const { path } = file;
+	if (!isNoteOrCanvas(file)) {
+		throw new Error(t("error.unsupportedFile", { path }));
+	}
+}
+
+// 图片位置所参照的文本：笔记全文，或 canvas 中图片所在卡片的文本
+function getImageText(
+	file: TFile,
+	data: string,
+	image: ParsedImage,
+): string | null {
+	if (!isCanvasFile(file)) return data;
+	const nodeId = (image as Partial<CanvasImageMatch>).nodeId;
+	return nodeId ? getCanvasNodeText(data, nodeId) : null;
+}
+
+function isUnchanged(text: string, image: ParsedImage): boolean {
+	return text.substring(image.from, image.to) === image.fullText;
+}
@@ -0,0 +1,203 @@
+import { App, TFile, TFolder, FuzzySuggestModal, Setting } from "obsidian";
+import { BatchImageModal, FileImagePlan } from "./batch-modal";
+import { Base64ImageMatch, formatBytes } from "./image-scanner";
+import { ExtractedImage, saveImageAsAttachment } from "./image-extractor";
+import { replaceImages } from "./image-parser";
+import { isCanvasFile, rewriteCanvasImages, scanFileImages } from "./canvas";
+import type { Base64ImageSettings } from "./settings";
+import { Base64ImageEvent, triggerImageEvent } from "./api";
+import { t } from "./i18n";
+
+// 批量提取的结果汇总
+interface BatchExtractionReport {
+	notesUpdated: number;
+	filesWritten: number;
+	bytesSaved: number;
+	errors: string[];
+}
+
+function byteLength(text: string): number {
+	return new TextEncoder().encode(text).length;
+}
+
+// 批量提取 Modal：把给定笔记和 canvas 中的图片提取为附件
+export class BatchExtractModal extends BatchImageModal {
+	// canvas 中的图片提取为文件卡片，而不是卡片文本中的链接
+	private canvasFileNodes = false;
+	private report: BatchExtractionReport = {
+		notesUpdated: 0,
+		filesWritten: 0,
+		bytesSaved: 0,
+		errors: [],
+	};
+
+	constructor(
+		app: App,
+		private settings: Base64ImageSettings,
+		scopeLabel: string,
+		files: TFile[],
+	) {
+		super(app, t("batch.title", { scope: scopeLabel }), files);
+	}
+
+	protected scanImages(file: TFile, text: string): Base64ImageMatch[] {
+		return scanFileImages(file, text);
+	}
+
+	protected getPlanText(imageCount: number): string {
+		const totalBytes = this.plan.reduce(
+			(sum, p) => sum + p.images.reduce((s, i) => s + i.byteSize, 0),
+			0,
+		);
+		return t("batch.plan", {
+			notes: this.plan.length,
+			images: imageCount,
+			size: formatBytes(totalBytes),
+		});
+	}
+
+	protected getEmptyText(): string {
+		return t("common.noImagesFound");
+	}
+
+	protected getStartText(): string {
+		return t("batch.start");
+	}
+
+	protected renderOptions(contentEl: HTMLElement) {
+		if (!this.plan.some(({ file }) => isCanvasFile(file))) return;
+
+		new Setting(contentEl)
+			.setName(t("batch.canvasFileNodes"))
+			.setDesc(t("batch.canvasFileNodesDesc"))
+			.addToggle((toggle) =>
+				toggle.setValue(this.canvasFileNodes).onChange((value) => {
+					this.canvasFileNodes = value;
+				}),
+			);
+	}
+
+	protected async processFile(
+		{ file, images }: FileImagePlan,
+		advance: () => void,
+	) {
+		const { report } = this;
+		// 原文本 → 写出的附件；同一笔记中重复的图片只写一次文件
+		const replacements = new Map<string, ExtractedImage>();
+		const extractedImages: Base64ImageEvent[] = [];
+		for (const image of images) {
+			if (this.cancelled) break;
+
+			if (!replacements.has(image.fullText)) {
+				try {
+					const extracted = await saveImageAsAttachment(
+						this.app,
+						this.settings,
+						image,
+						file,
+					);
+					replacements.set(image.fullText, extracted);
+					extractedImages.push({
+						file,
+						alt: image.alt,
+						dataUrl: image.dataUrl,
+						path: extracted.path,
+					});
+					report.filesWritten++;
+				} catch (error) {
+					report.errors.push(
+						`${file.path}:${image.line + 1} ${error instanceof Error ? error.message : String(error)}`,
+					);
+				}
+			}
+
+			advance();
+		}
+
+		// 即使中途取消，也要替换已写出的图片，避免留下孤立文件
+		if (replacements.size === 0) return;
+		await this.app.vault.process(file, (content) => {
+			let result = content;
+			if (isCanvasFile(file)) {
+				result = rewriteCanvasImages(
+					content,
+					replacements,
+					this.canvasFileNodes,
+				);
+			} else {
+				result = replaceImages(
+					content,
+					(image) => replacements.get(image.fullText)?.markdown ?? null,
+				);
+			}
+			report.bytesSaved += byteLength(content) - byteLength(result);
+			return result;
+		});
+		report.notesUpdated++;
+		for (const event of extractedImages) {
+			triggerImageEvent(this.app, "extracted", event);
+		}
+	}
+
+	protected renderResult(contentEl: HTMLElement): string {
+		const { report } = this;
+		contentEl.createDiv({
+			cls: "base64-batch-summary",
+			text: this.cancelled ? t("batch.cancelled") : t("batch.done"),
+		});
+
+		const list = contentEl.createEl("ul");
+		list.createEl("li", {
+			text: t("batch.notesUpdated", { count: report.notesUpdated }),
+		});
+		list.createEl("li", {
+			text: t("batch.filesWritten", { count: report.filesWritten }),
+		});
+		list.createEl("li", {
+			text: t("batch.bytesSaved", {
+				size: formatBytes(report.bytesSaved),
+			}),
+		});
+
+		if (report.errors.length > 0) {
+			contentEl.createDiv({
+				cls: "base64-batch-errors-title",
+				text: t("batch.errors", { count: report.errors.length }),
+			});
+			const errorList = contentEl.createEl("ul", {
+				cls: "base64-batch-errors",
+			});
+			for (const error of report.errors) {
+				errorList.createEl("li", { text: error });
+			}
+		}
+
+		return t("batch.notice", {
+			files: report.filesWritten,
+			notes: report.notesUpdated,
+		});
+	}
+}
+
+// 选择文件夹的模糊搜索 Modal
+export class FolderSuggestModal extends FuzzySuggestModal<TFolder> {
+	constructor(
+		app: App,
+		private onChoose: (folder: TFolder) => void,
+	) {
+		super(app);
+		this.setPlaceholder(t("suggest.folder"));
+	}
+
+	getItems(): TFolder[] {
+		return this.app.vault.getAllFolders(true);
+	}
+
+	getItemText(folder: TFolder): string {
+		return folder.isRoot() ? "/" : folder.path;
+	}
+
+	onChooseItem(folder: TFolder): void {
+		this.onChoose(folder);
+	}
+}
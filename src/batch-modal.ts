@@ -0,0 +1,193 @@
+import { App, ButtonComponent, Modal, Notice, TFile } from "obsidian";
+import { Base64ImageMatch, formatBytes } from "./image-scanner";
+import { t } from "./i18n";
+
+// 单个笔记或 canvas 中要处理的图片
+export interface FileImagePlan {
+	file: TFile;
+	images: Base64ImageMatch[];
+}
+
+// 批量处理图片的 Modal：预览 → 执行（带进度和取消）→ 汇总报告；
+// 子类只需提供查找、处理单个文件和汇总的逻辑
+export abstract class BatchImageModal extends Modal {
+	protected plan: FileImagePlan[] = [];
+	protected cancelled = false;
+	private running = false;
+
+	constructor(
+		app: App,
+		private title: string,
+		private files: TFile[],
+	) {
+		super(app);
+	}
+
+	// 找出文件中需要处理的图片
+	protected abstract scanImages(file: TFile, text: string): Base64ImageMatch[];
+
+	// 预览中的汇总文本；没有需要处理的图片时显示 emptyText
+	protected abstract getPlanText(imageCount: number): string;
+	protected abstract getEmptyText(): string;
+	protected abstract getStartText(): string;
+
+	// 处理一个文件，每处理完 count 张图片调用一次 advance
+	protected abstract processFile(
+		entry: FileImagePlan,
+		advance: (count?: number) => void,
+	): Promise<void>;
+
+	// 在 contentEl 中显示汇总，返回通知文本
+	protected abstract renderResult(contentEl: HTMLElement): string;
+
+	// 预览中开始按钮之前的选项
+	protected renderOptions(contentEl: HTMLElement) {}
+
+	async onOpen() {
+		this.contentEl.addClass("base64-batch-modal");
+		this.setTitle(this.title);
+		this.contentEl.createDiv({ text: t("batch.analyzing") });
+
+		this.plan = await this.buildPlan();
+		this.renderPreview();
+	}
+
+	onClose() {
+		// 关闭窗口视为取消，已开始的笔记处理完后停止
+		this.cancelled = true;
+		this.contentEl.empty();
+	}
+
+	private async buildPlan(): Promise<FileImagePlan[]> {
+		const plan: FileImagePlan[] = [];
+		for (const file of this.files) {
+			const images = this.scanImages(
+				file,
+				await this.app.vault.cachedRead(file),
+			);
+			if (images.length > 0) {
+				plan.push({ file, images });
+			}
+		}
+		return plan;
+	}
+
+	// 预览（dry-run）：列出将要修改的笔记和图片
+	private renderPreview() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const imageCount = this.plan.reduce((n, p) => n + p.images.length, 0);
+		if (imageCount === 0) {
+			contentEl.createDiv({
+				cls: "base64-batch-summary",
+				text: this.getEmptyText(),
+			});
+			return;
+		}
+
+		contentEl.createDiv({
+			cls: "base64-batch-summary",
+			text: this.getPlanText(imageCount),
+		});
+
+		const listEl = contentEl.createDiv({ cls: "base64-batch-list" });
+		for (const { file, images } of this.plan) {
+			const details = listEl.createEl("details");
+			details.createEl("summary", {
+				text: t("batch.noteImages", {
+					path: file.path,
+					count: images.length,
+				}),
+			});
+			const ul = details.createEl("ul");
+			for (const image of images) {
+				ul.createEl("li", {
+					text: t("batch.imageLine", {
+						line: image.line + 1,
+						alt: image.alt || t("common.noAlt"),
+						format: image.format.toUpperCase(),
+						size: formatBytes(image.byteSize),
+					}),
+				});
+			}
+		}
+
+		this.renderOptions(contentEl);
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("common.cancel"))
+			.onClick(() => {
+				this.close();
+			});
+		new ButtonComponent(buttons)
+			.setButtonText(this.getStartText())
+			.setCta()
+			.onClick(() => {
+				void this.run(imageCount);
+			});
+	}
+
+	private async run(imageCount: number) {
+		if (this.running) return;
+		this.running = true;
+
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const statusEl = contentEl.createDiv({ cls: "base64-batch-status" });
+		const progressEl = contentEl.createEl("progress", {
+			cls: "base64-batch-progress",
+		});
+		progressEl.max = imageCount;
+		progressEl.value = 0;
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		const cancelBtn = new ButtonComponent(buttons)
+			.setButtonText(t("common.cancel"))
+			.onClick(() => {
+				this.cancelled = true;
+				cancelBtn.setDisabled(true).setButtonText(t("batch.cancelling"));
+			});
+
+		let done = 0;
+		for (const entry of this.plan) {
+			if (this.cancelled) break;
+
+			const setStatus = () =>
+				statusEl.setText(
+					t("batch.progress", {
+						path: entry.file.path,
+						current: Math.min(done + 1, imageCount),
+						total: imageCount,
+					}),
+				);
+			setStatus();
+			await this.processFile(entry, (count = 1) => {
+				done += count;
+				progressEl.value = done;
+				setStatus();
+			});
+		}
+
+		this.running = false;
+		this.renderReport();
+	}
+
+	private renderReport() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const message = this.renderResult(contentEl);
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("common.close"))
+			.onClick(() => {
+				this.close();
+			});
+
+		new Notice(message);
+	}
+}
@@ -0,0 +1,225 @@
+import { App, TAbstractFile, TFile, TFolder } from "obsidian";
+import type {
+	AllCanvasNodeData,
+	CanvasData,
+	CanvasFileData,
+	CanvasTextData,
+} from "obsidian/canvas";
+import type { ExtractedImage } from "./image-extractor";
+import { replaceImages } from "./image-parser";
+import { Base64ImageMatch, scanBase64Images } from "./image-scanner";
+
+// 新建的文件卡片与原卡片之间的间距
+const NODE_GAP = 20;
+
+// canvas 文本卡片中的一处图片；位置和行号相对于卡片的文本
+export interface CanvasImageMatch extends Base64ImageMatch {
+	nodeId: string;
+}
+
+export function isCanvasFile(file: TAbstractFile): file is TFile {
+	return file instanceof TFile && file.extension === "canvas";
+}
+
+// 可能包含 Base64 图片的文件：Markdown 笔记和 canvas
+export function isNoteOrCanvas(file: TAbstractFile): file is TFile {
+	return (
+		file instanceof TFile &&
+		(file.extension === "md" || file.extension === "canvas")
+	);
+}
+
+// 仓库或文件夹（含子文件夹）中的笔记和 canvas
+export function getNotesAndCanvases(app: App, folder?: TFolder): TFile[] {
+	const prefix = folder && !folder.isRoot() ? `${folder.path}/` : "";
+	return app.vault
+		.getFiles()
+		.filter((file) => isNoteOrCanvas(file) && file.path.startsWith(prefix));
+}
+
+// 扫描笔记或 canvas 中的图片
+export function scanFileImages(file: TFile, text: string): Base64ImageMatch[] {
+	return isCanvasFile(file) ? scanCanvasImages(text) : scanBase64Images(text);
+}
+
+// 扫描 canvas 中所有文本卡片里的图片
+export function scanCanvasImages(text: string): CanvasImageMatch[] {
+	const data = parseCanvas(text);
+	if (!data) return [];
+
+	return getTextNodes(data).flatMap((node) =>
+		scanBase64Images(node.text).map((image) => ({
+			...image,
+			nodeId: node.id,
+		})),
+	);
+}
+
+// canvas 中某张文本卡片的文本，卡片不存在时返回 null
+export function getCanvasNodeText(
+	content: string,
+	nodeId: string,
+): string | null {
+	const data = parseCanvas(content);
+	if (!data) return null;
+	return getTextNodes(data).find((node) => node.id === nodeId)?.text ?? null;
+}
+
+// 修改 canvas 中某张文本卡片的文本，卡片不存在时返回 null
+export function updateCanvasNodeText(
+	content: string,
+	nodeId: string,
+	update: (text: string) => string,
+): string | null {
+	const data = parseCanvas(content);
+	if (!data) return null;
+
+	let found = false;
+	const nodes = data.nodes.map((node) => {
+		if (
+			node.id !== nodeId ||
+			node.type !== "text" ||
+			typeof node.text !== "string"
+		) {
+			return node;
+		}
+		found = true;
+		return { ...node, text: update(node.text) };
+	});
+	return found ? JSON.stringify({ ...data, nodes }, null, "\t") : null;
+}
+
+// 修改 canvas 中所有文本卡片的文本
+export function updateCanvasTexts(
+	content: string,
+	update: (text: string) => string,
+): string {
+	const data = parseCanvas(content);
+	if (!data) return content;
+
+	const nodes = data.nodes.map((node) =>
+		node.type === "text" && typeof node.text === "string"
+			? { ...node, text: update(node.text) }
+			: node,
+	);
+	return JSON.stringify({ ...data, nodes }, null, "\t");
+}
+
+// 将文本卡片中已提取的图片替换为附件链接；
+// asFileNodes 为 true 时改为把图片移出文本，放到卡片右侧的文件卡片中，
+// 只含图片的卡片直接变为文件卡片，保留 id 以保持连线
+export function rewriteCanvasImages(
+	content: string,
+	extracted: Map<string, ExtractedImage>,
+	asFileNodes: boolean,
+): string {
+	const data = parseCanvas(content);
+	if (!data) return content;
+
+	const usedIds = new Set(data.nodes.map((node) => node.id));
+	const nodes: AllCanvasNodeData[] = [];
+
+	for (const node of data.nodes) {
+		if (node.type !== "text" || typeof node.text !== "string") {
+			nodes.push(node);
+			continue;
+		}
+		if (!asFileNodes) {
+			const text = replaceImages(
+				node.text,
+				(image) => extracted.get(image.fullText)?.markdown ?? null,
+			);
+			nodes.push({ ...node, text });
+			continue;
+		}
+
+		// 按出现顺序收集附件，同一张图片只建一张卡片
+		const paths: string[] = [];
+		let text = replaceImages(node.text, (image) => {
+			const result = extracted.get(image.fullText);
+			if (!result) return null;
+			if (!paths.includes(result.path)) paths.push(result.path);
+			return "";
+		});
+		if (paths.length === 0) {
+			nodes.push(node);
+			continue;
+		}
+
+		text = text.replace(/\n{3,}/g, "\n\n").trim();
+		const newNodePaths = [...paths];
+		if (text) {
+			nodes.push({ ...node, text });
+		} else {
+			// 卡片中只有图片时，第一张图片直接占据原卡片
+			const first = newNodePaths.shift() ?? "";
+			nodes.push(toFileNode(node, node.id, node.x, node.y, first));
+		}
+		newNodePaths.forEach((path, i) => {
+			nodes.push(
+				toFileNode(
+					node,
+					createNodeId(usedIds),
+					node.x + node.width + NODE_GAP,
+					node.y + i * (node.height + NODE_GAP),
+					path,
+				),
+			);
+		});
+	}
+
+	// Obsidian 保存 canvas 时使用制表符缩进
+	return JSON.stringify({ ...data, nodes }, null, "\t");
+}
+
+export function parseCanvas(text: string): CanvasData | null {
+	try {
+		const data = JSON.parse(text) as Partial<CanvasData> | null;
+		return data && Array.isArray(data.nodes)
+			? (data as CanvasData)
+			: null;
+	} catch {
+		return null;
+	}
+}
+
+function getTextNodes(data: CanvasData): CanvasTextData[] {
+	return data.nodes.filter(
+		(node): node is CanvasTextData =>
+			node.type === "text" && typeof node.text === "string",
+	);
+}
+
+// 与文本卡片大小和颜色相同的文件卡片
+function toFileNode(
+	node: CanvasTextData,
+	id: string,
+	x: number,
+	y: number,
+	file: string,
+): CanvasFileData {
+	const fileNode: CanvasFileData = {
+		id,
+		type: "file",
+		file,
+		x,
+		y,
+		width: node.width,
+		height: node.height,
+	};
+	if (node.color) fileNode.color = node.color;
+	return fileNode;
+}
+
+// 与 Obsidian 相同的 16 位十六进制 id
+function createNodeId(usedIds: Set<string>): string {
+	let id = "";
+	do {
+		const bytes = window.crypto.getRandomValues(new Uint8Array(8));
+		id = Array.from(bytes, (byte) =>
+			byte.toString(16).padStart(2, "0"),
+		).join("");
+	} while (usedIds.has(id));
+	usedIds.add(id);
+	return id;
+}
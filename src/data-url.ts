@@ -0,0 +1,278 @@
+import { t } from "./i18n";
+
+// data URL 的解析结果：data:[<mime>][;param=value]*[;base64],<data>
+export interface DataUrlInfo {
+	mimeType: string;
+	params: Record<string, string>;
+	isBase64: boolean;
+	data: string;
+}
+
+// MIME 类型与文件扩展名的对应关系
+const MIME_EXTENSIONS: Record<string, string> = {
+	"image/png": "png",
+	"image/jpeg": "jpg",
+	"image/gif": "gif",
+	"image/webp": "webp",
+	"image/svg+xml": "svg",
+	"image/avif": "avif",
+	"image/bmp": "bmp",
+	"image/x-icon": "ico",
+	"image/vnd.microsoft.icon": "ico",
+	"image/tiff": "tiff",
+	"image/heic": "heic",
+	"image/heif": "heif",
+};
+
+export function parseDataUrl(dataUrl: string): DataUrlInfo | null {
+	if (!/^data:/i.test(dataUrl)) return null;
+
+	const commaIndex = dataUrl.indexOf(",");
+	if (commaIndex === -1) return null;
+
+	const parts = dataUrl.substring(5, commaIndex).split(";");
+	const mimeType = (parts.shift() ?? "").trim().toLowerCase();
+	const params: Record<string, string> = {};
+	let isBase64 = false;
+
+	for (const part of parts) {
+		const param = part.trim();
+		if (param.toLowerCase() === "base64") {
+			isBase64 = true;
+			continue;
+		}
+		const eqIndex = param.indexOf("=");
+		if (eqIndex === -1) {
+			// 如 data:image/svg+xml;utf8,<svg...> 这样的非标准写法
+			if (param) params[param.toLowerCase()] = "";
+		} else {
+			params[param.substring(0, eqIndex).trim().toLowerCase()] = param
+				.substring(eqIndex + 1)
+				.trim();
+		}
+	}
+
+	return {
+		mimeType: mimeType || "text/plain",
+		params,
+		isBase64,
+		data: dataUrl.substring(commaIndex + 1),
+	};
+}
+
+// 判断字符串是否是合法的 base64（允许空白）
+export function isValidBase64(data: string): boolean {
+	const cleaned = data.replace(/\s/g, "");
+	return cleaned.length % 4 === 0 && /^[A-Za-z0-9+/]*={0,2}$/.test(cleaned);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+	const binaryString = atob(base64.replace(/\s/g, ""));
+	const bytes = new Uint8Array(binaryString.length);
+	for (let i = 0; i < binaryString.length; i++) {
+		bytes[i] = binaryString.charCodeAt(i);
+	}
+	return bytes;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+	// 分块转换，避免大图片超出参数数量限制
+	let binary = "";
+	const chunkSize = 0x8000;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+	}
+	return btoa(binary);
+}
+
+// 解码 data URL 中的二进制数据，支持 base64 和百分号编码
+export function decodeDataUrlBytes(dataUrl: string): Uint8Array | null {
+	const info = parseDataUrl(dataUrl);
+	if (!info) return null;
+
+	try {
+		if (info.isBase64) {
+			return base64ToBytes(info.data);
+		}
+		return percentDecode(info.data);
+	} catch {
+		return null;
+	}
+}
+
+// 百分号解码为字节，与浏览器一致：无效的 % 序列原样保留，而不是报错
+export function percentDecode(data: string): Uint8Array {
+	const input = new TextEncoder().encode(data);
+	const output = new Uint8Array(input.length);
+	let length = 0;
+	for (let i = 0; i < input.length; i++) {
+		const byte = input[i] ?? 0;
+		if (byte === 0x25 && i + 2 < input.length) {
+			const high = hexValue(input[i + 1] ?? 0);
+			const low = hexValue(input[i + 2] ?? 0);
+			if (high !== -1 && low !== -1) {
+				output[length++] = (high << 4) | low;
+				i += 2;
+				continue;
+			}
+		}
+		output[length++] = byte;
+	}
+	return output.slice(0, length);
+}
+
+function hexValue(byte: number): number {
+	if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+	if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+	if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+	return -1;
+}
+
+// 解码 data URL 中的文本内容（用于 SVG）
+export function decodeDataUrlText(dataUrl: string): string | null {
+	const bytes = decodeDataUrlBytes(dataUrl);
+	return bytes ? new TextDecoder().decode(bytes) : null;
+}
+
+// 根据文件头（magic bytes）识别图片的 MIME 类型
+export function detectMimeType(bytes: Uint8Array): string | null {
+	const startsWith = (signature: number[], offset = 0) =>
+		signature.every((byte, i) => bytes[offset + i] === byte);
+	const ascii = (start: number, end: number) =>
+		String.fromCharCode(...bytes.subarray(start, end));
+
+	if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+		return "image/png";
+	}
+	if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+	if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") {
+		return "image/gif";
+	}
+	if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+	if (startsWith([0x42, 0x4d])) return "image/bmp";
+	if (startsWith([0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+	if (
+		startsWith([0x49, 0x49, 0x2a, 0x00]) ||
+		startsWith([0x4d, 0x4d, 0x00, 0x2a])
+	) {
+		return "image/tiff";
+	}
+
+	// ISO BMFF 容器（AVIF / HEIC）：第 4-8 字节为 ftyp，之后是品牌列表
+	if (ascii(4, 8) === "ftyp") {
+		const boxSize =
+			((bytes[0] ?? 0) << 24) |
+			((bytes[1] ?? 0) << 16) |
+			((bytes[2] ?? 0) << 8) |
+			(bytes[3] ?? 0);
+		const brands: string[] = [ascii(8, 12)];
+		for (let i = 16; i + 4 <= Math.min(boxSize, bytes.length); i += 4) {
+			brands.push(ascii(i, i + 4));
+		}
+		if (brands.some((brand) => brand === "avif" || brand === "avis")) {
+			return "image/avif";
+		}
+		if (
+			brands.some((brand) =>
+				["heic", "heix", "hevc", "hevx", "heim", "heis"].includes(brand),
+			)
+		) {
+			return "image/heic";
+		}
+		if (brands.some((brand) => brand === "mif1" || brand === "msf1")) {
+			return "image/heif";
+		}
+	}
+
+	// SVG 是文本格式，检查开头是否为 XML 声明或 <svg 标签
+	const head = new TextDecoder()
+		.decode(bytes.subarray(0, 512))
+		.replace(/^\uFEFF/, "")
+		.trimStart();
+	if (
+		head.startsWith("<svg") ||
+		(head.startsWith("<?xml") && head.includes("<svg")) ||
+		(head.startsWith("<!--") && head.includes("<svg"))
+	) {
+		return "image/svg+xml";
+	}
+
+	return null;
+}
+
+export function mimeTypeToExtension(mimeType: string): string {
+	return (
+		MIME_EXTENSIONS[mimeType] ??
+		mimeType.replace(/^image\//, "").replace(/\+.*$/, "")
+	);
+}
+
+// 用于显示的简短格式名，如 png、svg
+export function getImageFormat(dataUrl: string): string {
+	const info = parseDataUrl(dataUrl);
+	if (!info || !info.mimeType.startsWith("image/")) return "unknown";
+	return mimeTypeToExtension(info.mimeType);
+}
+
+// 根据 base64 数据的文件头检测图片的 MIME 类型
+export function detectImageType(base64: string): string | null {
+	// 只解码开头部分（长度需为 4 的倍数）
+	const head = base64.replace(/\s/g, "").substring(0, 64);
+	try {
+		return detectMimeType(
+			base64ToBytes(head.substring(0, head.length - (head.length % 4))),
+		);
+	} catch {
+		return null;
+	}
+}
+
+// 将用户输入的内容整理为图片 data URL：
+// 完整的 data URL 原样返回，SVG 源码会被编码，纯 base64 根据文件头补上前缀
+export function normalizeImageInput(input: string): string {
+	const cleaned = input.trim();
+
+	if (/^data:image\//i.test(cleaned)) {
+		return cleaned;
+	}
+
+	if (/^(<\?xml|<svg|<!--)/i.test(cleaned) && cleaned.includes("<svg")) {
+		return svgToDataUrl(cleaned, false);
+	}
+
+	const mimeType = detectImageType(cleaned);
+	if (!mimeType) {
+		throw new Error(t("error.unknownFormat"));
+	}
+	return `data:${mimeType};base64,${cleaned.replace(/\s/g, "")}`;
+}
+
+// 将二进制数据编码为 base64 data URL
+export function bytesToDataUrl(bytes: Uint8Array, mimeType: string): string {
+	return `data:${mimeType};base64,${bytesToBase64(bytes)}`;
+}
+
+// 将 Blob 转换为 Base64 data URL
+export function blobToBase64(blob: Blob): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onloadend = () => {
+			const result = reader.result as string;
+			resolve(result);
+		};
+		reader.onerror = reject;
+		reader.readAsDataURL(blob);
+	});
+}
+
+// 将 SVG 文本编码为 data URL，base64 为 false 时使用百分号编码
+export function svgToDataUrl(svg: string, base64: boolean): string {
+	if (base64) {
+		return bytesToDataUrl(new TextEncoder().encode(svg), "image/svg+xml");
+	}
+	// 括号也要编码，否则会破坏 Markdown 链接
+	const encoded = encodeURIComponent(svg)
+		.replace(/\(/g, "%28")
+		.replace(/\)/g, "%29");
+	return `data:image/svg+xml;charset=utf-8,${encoded}`;
+}
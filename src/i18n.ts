@@ -0,0 +1,658 @@
+import { getLanguage } from "obsidian";
+
+// 界面语言，auto 表示跟随 Obsidian
+export type Locale = "en" | "zh";
+export type LanguageSetting = "auto" | Locale;
+
+// 简体中文（同时作为完整的键列表）
+const zh = {
+	// 通用
+	"common.cancel": "取消",
+	"common.close": "关闭",
+	"common.noAlt": "无描述",
+	"common.none": "无",
+	"common.outputFormat": "输出格式",
+	"common.quality": "质量",
+	"common.maxDimensions": "最大宽高",
+	"common.noLimit": "0 表示不限制",
+	"common.noImagesFound": "未找到任何 Base64 图片",
+
+	// 编辑器中的折叠图片
+	"widget.chipLabel": "[图片]",
+	"widget.edit": "编辑",
+	"widget.dataOmitted": "图片数据已省略",
+	"displayMode.chip": "文字标签",
+	"displayMode.thumbnail": "缩略图",
+	"displayMode.full": "原尺寸",
+
+	// 图片管理 Modal
+	"modal.title": "Base64 图片管理",
+	"modal.preview": "图片预览",
+	"modal.previewTab": "预览",
+	"modal.svgSourceTab": "SVG 源码",
+	"modal.svgSyntaxError": "SVG 语法错误，修改未应用",
+	"modal.replace": "替换图片",
+	"modal.replaceHint":
+		"提示：可以直接粘贴图片或 Base64 字符串，也可以把图片拖到预览区域",
+	"modal.replacePlaceholder":
+		"粘贴 Base64 字符串或直接粘贴图片 (Ctrl/Cmd + V)...",
+	"modal.converting": "正在转换图片...",
+	"modal.convertFailed": "转换失败: {message}",
+	"modal.validating": "正在验证 Base64...",
+	"modal.chooseFile": "选择文件",
+	"modal.chooseFromVault": "从仓库中选择",
+	"modal.editImage": "编辑图片",
+	"modal.compress": "压缩图片",
+	"modal.useCompressed": "使用压缩结果",
+	"modal.previewCompression": "预览压缩",
+	"modal.compressing": "正在压缩...",
+	"modal.compressResult": "{change}，{before} → {after}",
+	"modal.compressFailed": "压缩失败: {message}",
+	"modal.info": "图片信息",
+	"modal.infoAlt": "描述: {alt}",
+	"modal.infoSize": "大小: {size}",
+	"modal.infoFormat": "格式: {format}",
+	"modal.infoDimensions": "尺寸: {width} × {height}",
+	"modal.infoColor": "颜色: {color}",
+	"modal.infoColorDepth": "颜色: {color}，{bitDepth} 位",
+	"modal.infoFrames": "帧数: {frames}",
+	"modal.infoCamera": "相机: {camera}",
+	"modal.infoTaken": "拍摄时间: {time}",
+	"modal.infoModified": "修改时间: {time}",
+	"modal.infoSoftware": "软件: {software}",
+	"modal.infoLocation": "拍摄位置: {latitude}, {longitude}（会随笔记一起分享）",
+	"modal.stripMetadata": "移除元数据",
+	"modal.editAlt": "编辑描述",
+	"modal.altPlaceholder": "输入图片描述...",
+	"modal.save": "保存修改",
+	"modal.convertToFile": "转为本地文件",
+	"modal.copyBase64": "复制 Base64",
+	"modal.copyImage": "复制为图片",
+	"modal.copyMarkdown": "复制为 Markdown",
+	"modal.copyHtml": "复制为 HTML",
+	"modal.download": "下载图片",
+	"modal.saveAs": "另存为...",
+	"modal.delete": "删除图片",
+
+	// 提示消息
+	"metadata.grayscale": "灰度",
+	"metadata.grayscale-alpha": "灰度 + 透明",
+	"metadata.indexed": "调色板",
+	"metadata.rgb": "RGB",
+	"metadata.rgba": "RGB + 透明",
+	"metadata.cmyk": "CMYK",
+	"notice.convertedToBase64": "图片已转换为 Base64",
+	"notice.convertFailed": "转换图片失败",
+	"notice.base64Valid": "Base64 验证成功",
+	"notice.base64Invalid": "Base64 格式无效",
+	"notice.notAnImage": "拖入的不是图片文件",
+	"notice.imageEdited": "图片已修改，保存后生效",
+	"notice.compressionApplied": "已应用压缩结果，点击“保存修改”写入笔记",
+	"notice.notCompressible": "该格式不支持压缩",
+	"notice.base64Copied": "Base64 数据已复制到剪贴板",
+	"notice.imageCopied": "图片已复制到剪贴板",
+	"notice.markdownCopied": "Markdown 图片已复制到剪贴板",
+	"notice.htmlCopied": "HTML 图片标签已复制到剪贴板",
+	"notice.copyFailed": "复制失败: {message}",
+	"notice.metadataRemoved": "已移除元数据，点击“保存修改”写入笔记",
+	"notice.metadataStripped": "已移除 {notes} 篇笔记中 {images} 张图片的元数据",
+	"notice.noMetadata": "没有需要移除的元数据",
+	"notice.imageMissing": "图片已从笔记中删除或被修改，未写入任何内容",
+	"notice.imageUpdated": "图片已更新",
+	"notice.noActiveFile": "无法获取当前文件",
+	"notice.savedToFile": "图片已保存到: {path}",
+	"notice.convertToFileFailed": "转换为本地文件失败: {message}",
+	"notice.downloadStarted": "图片下载已开始",
+	"notice.saveFailed": "保存失败: {message}",
+	"notice.imageDeleted": "图片已删除",
+	"notice.displayModeChanged": "当前笔记的图片显示方式：{mode}",
+	"notice.imagesFound": "找到 {count} 个 Base64 图片",
+	"notice.clipboardUnavailable": "无法读取剪贴板",
+	"notice.clipboardNoImage": "剪贴板中没有图片",
+	"notice.cannotLoadImage": "无法加载图片",
+	"notice.imagesNormalized": "已改写 {count} 张图片",
+	"notice.nothingToNormalize": "没有需要改写的图片",
+
+	// 大小上限
+	"budget.title": "图片过大",
+	"budget.noteExceeded":
+		"这篇笔记中的 {count} 张图片共 {size}，超过了 {budget} 的上限",
+	"budget.imageExceeded": "新图片的大小（{sizes}）超过了单张 {budget} 的上限",
+	"budget.compress": "压缩图片",
+	"budget.extract": "提取为附件",
+	"status.summary": "{count} 张图片 · {size}",
+	"status.overBudget": "超过上限 {budget}",
+
+	// 错误
+	"error.invalidImage": "无效的 Base64 图片格式",
+	"error.unknownFormat": "无法识别图片格式",
+	"error.invalidImageData": "无效的图片数据",
+	"error.loadImage": "无法加载图片",
+	"error.createCanvas": "无法创建画布",
+	"error.imageChanged": "图片已从笔记中删除或被修改",
+	"error.unsupportedFile": "只支持 Markdown 笔记和 canvas：{path}",
+
+	// 命令
+	"command.pasteAsBase64": "粘贴剪贴板图片为 Base64",
+	"command.findAll": "查找所有 Base64 图片",
+	"command.checkImages": "检查仓库中的 Base64 图片",
+	"command.cycleDisplayMode": "切换当前笔记的图片显示方式",
+	"command.openIndex": "打开图片索引",
+	"command.extractInNote": "提取当前笔记中的所有图片",
+	"command.extractInFolder": "提取文件夹中的所有图片",
+	"command.extractInVault": "提取仓库中的所有图片",
+	"command.compressInNote": "压缩当前笔记中的所有图片",
+	"command.inlineLocal": "将本地图片内联为 Base64（当前笔记或选区）",
+	"command.inlineLocalAndDelete":
+		"将本地图片内联为 Base64 并删除未引用的附件",
+	"command.moveToReferences": "将当前笔记中的图片数据移到末尾的引用定义",
+	"command.inlineReferences": "将当前笔记中引用定义的图片改回内联",
+	"command.exportHtml": "将当前笔记导出为 HTML（内联所有图片）",
+	"command.exportZip": "将当前笔记导出为 ZIP（图片放入 images 文件夹）",
+	"command.nextImage": "跳到下一张 Base64 图片",
+	"command.previousImage": "跳到上一张 Base64 图片",
+	"command.listImages": "列出当前笔记中的 Base64 图片",
+	"command.editImageAtCursor": "编辑光标处的图片",
+	"command.extractImageAtCursor": "将光标处的图片保存为本地文件",
+	"command.copyImageAtCursor": "复制光标处图片的 Base64 数据",
+	"command.deleteImageAtCursor": "删除光标处的图片",
+	"command.stripMetadataInNote": "移除当前笔记中图片的元数据（EXIF、GPS）",
+	"command.stripMetadataInVault": "移除仓库中所有图片的元数据（EXIF、GPS）",
+
+	// 数据检查
+	"lint.fixMimeType": "更正为 {mimeType}",
+	"lint.fixPadding": "修正填充",
+	"lint.fixUrlSafe": "转换为标准 Base64",
+	"lint.delete": "删除图片",
+	"problem.invalidDataUrl": "不是有效的 data URL",
+	"problem.invalidCharacters": "Base64 数据包含无效字符“{char}”",
+	"problem.badPadding": "Base64 数据长度或填充不正确，可能已被截断",
+	"problem.undecodable": "图片数据无法解码",
+	"problem.unknownFormat": "无法从数据中识别图片格式",
+	"problem.truncated": "图片数据不完整，可能已被截断",
+	"problem.mimeMismatch": "声明的类型 {declared} 与实际数据 {detected} 不符",
+	"check.title": "检查 Base64 图片",
+	"check.progress": "正在检查 {current}/{total}：{path}",
+	"check.problemsFound": "共检查 {images} 张图片，发现 {problems} 处问题",
+	"check.noProblems": "共检查 {images} 张图片，没有发现问题",
+
+	// 图片索引
+	"index.title": "Base64 图片索引",
+	"index.sortBySize": "按大小排序",
+	"index.sortByPath": "按笔记排序",
+	"index.sortByFormat": "按格式排序",
+	"index.indexing": "正在索引...",
+	"index.summary": "{notes} 篇笔记，{images} 张图片，共 {size}",
+	"index.allFormats": "全部格式",
+	"index.allFolders": "全部文件夹",
+
+	// 批量提取
+	"batch.title": "批量提取 Base64 图片：{scope}",
+	"batch.analyzing": "正在分析笔记...",
+	"batch.plan": "将从 {notes} 篇笔记中提取 {images} 张图片（共 {size}）",
+	"batch.noteImages": "{path}（{count} 张）",
+	"batch.imageLine": "第 {line} 行 · {alt} · {format} · {size}",
+	"batch.canvasFileNodes": "在 canvas 中转为文件卡片",
+	"batch.canvasFileNodesDesc":
+		"开启后图片会移出文本卡片，放到旁边的文件卡片中；否则替换为卡片文本中的链接",
+	"batch.start": "开始提取",
+	"batch.cancelling": "正在取消...",
+	"batch.progress": "正在处理 {path}（{current}/{total}）",
+	"batch.cancelled": "提取已取消",
+	"batch.done": "提取完成",
+	"batch.notesUpdated": "更新笔记：{count} 篇",
+	"batch.filesWritten": "写入文件：{count} 个",
+	"batch.bytesSaved": "笔记体积减少：{size}",
+	"batch.errors": "{count} 张图片提取失败：",
+	"batch.notice": "已提取 {files} 张图片，更新 {notes} 篇笔记",
+	"suggest.folder": "选择文件夹...",
+	"suggest.image": "选择图片...",
+	"suggest.noteImage": "按描述或格式搜索图片...",
+	"suggest.line": "第 {line} 行",
+
+	// 压缩
+	"compress.title": "压缩图片：{note}",
+	"compress.start": "开始压缩",
+	"compress.nothing": "没有可压缩的图片",
+	"compress.progress": "正在压缩第 {current}/{total} 张图片",
+	"compress.done": "已压缩 {count} 张图片：{change}",
+	"compress.noGain": "压缩后没有图片变小，笔记未修改",
+	"compress.notice": "已压缩 {count} 张图片",
+	"compress.decreased": "减少 {percent}%",
+	"compress.increased": "增加 {percent}%",
+	"compress.sizeChange": "{before} → {after}（{change}）",
+
+	// 移除元数据
+	"strip.title": "移除图片元数据：{scope}",
+	"strip.plan": "将移除 {notes} 篇笔记中 {images} 张图片的元数据",
+	"strip.start": "开始移除",
+	"strip.cancelled": "移除已取消",
+
+	// 内联本地图片
+	"inline.noLinks": "未找到本地图片链接",
+	"inline.noteChanged": "笔记在转换过程中被修改，请重试",
+	"inline.done": "已内联 {count} 张图片",
+	"inline.deleted": "，删除 {count} 个附件",
+	"inline.failed": "，{count} 张失败",
+
+	// 导出笔记
+	"export.done": "已导出 {name}",
+	"export.failedImages": "，{count} 张图片无法导出",
+	"export.failed": "导出失败: {message}",
+
+	// 图片编辑器
+	"editor.title": "编辑图片",
+	"editor.crop": "裁剪",
+	"editor.rect": "矩形",
+	"editor.arrow": "箭头",
+	"editor.pen": "画笔",
+	"editor.redact": "打码",
+	"editor.rotateLeft": "向左旋转",
+	"editor.rotateRight": "向右旋转",
+	"editor.flipHorizontal": "水平翻转",
+	"editor.flipVertical": "垂直翻转",
+	"editor.undo": "撤销",
+	"editor.redo": "重做",
+	"editor.apply": "应用",
+
+	// 设置
+	"settings.language": "语言",
+	"settings.languageDesc": "命令名称在重新加载插件后更新",
+	"settings.languageAuto": "跟随 Obsidian",
+	"settings.display": "编辑器显示",
+	"settings.collapse": "折叠图片",
+	"settings.collapseDesc": "在编辑器中将 Base64 图片折叠为一个标签",
+	"settings.threshold": "折叠阈值",
+	"settings.thresholdDesc": "图片数据长度超过该字符数时才折叠",
+	"settings.chipLabel": "标签文字",
+	"settings.chipLabelDesc": "折叠后显示在图片描述前的文字，留空使用默认文字",
+	"settings.displayMode": "显示方式",
+	"settings.displayModeDesc":
+		"折叠后的图片显示为文字标签、缩略图或原尺寸图片，可在笔记属性 {property} 中单独指定",
+	"settings.thumbnailSize": "缩略图高度",
+	"settings.thumbnailSizeDesc": "缩略图的最大高度（像素）",
+	"settings.badge": "显示格式和尺寸",
+	"settings.badgeDesc": "在缩略图角落显示图片格式和像素尺寸",
+	"settings.hoverPreview": "悬停预览",
+	"settings.hoverPreviewDesc": "鼠标悬停在缩略图上时显示大图",
+	"settings.lint": "检查图片数据",
+	"settings.lintDesc":
+		"在编辑器中标出损坏、被截断或类型不符的图片，并提供快速修复",
+	"settings.paste": "粘贴图片",
+	"settings.pasteAsBase64": "粘贴为 Base64",
+	"settings.pasteAsBase64Desc":
+		"在编辑器中粘贴或拖入图片时直接嵌入为 Base64，而不是保存为附件。可在笔记属性 {property} 中单独开启或关闭",
+	"settings.pasteFolders": "启用的文件夹",
+	"settings.pasteFoldersDesc":
+		"未开启上一项时，只在这些文件夹中嵌入为 Base64，每行一个",
+	"settings.pasteFoldersPlaceholder": "例如：日记/图片",
+	"settings.budget": "大小上限",
+	"settings.noteBudget": "笔记图片总大小上限（KB）",
+	"settings.noteBudgetDesc":
+		"笔记中所有 Base64 图片解码后的总大小超过该值时在状态栏标出，并在保存或粘贴图片时提醒，0 表示不限制。可在笔记属性 {property} 中单独指定",
+	"settings.imageBudget": "单张图片大小上限（KB）",
+	"settings.imageBudgetDesc":
+		"保存或粘贴的图片超过该大小时提醒，0 表示不限制",
+	"settings.attachments": "转为本地文件",
+	"settings.filenamePattern": "文件名模板",
+	"settings.filenamePatternDesc":
+		"可用变量：{{note}} 笔记名、{{date}} 日期时间、{{timestamp}} 时间戳、{{alt}} 图片描述、{{hash}} 内容哈希",
+	"settings.attachmentFolder": "保存文件夹",
+	"settings.attachmentFolderDesc":
+		"留空则与 Obsidian 保存粘贴的附件时一致，可使用 ${notename} 表示笔记名",
+	"settings.attachmentFolderPlaceholder": "例如：attachments",
+	"settings.linkStyle": "链接格式",
+	"settings.linkStyleDesc": "替换原图片时使用的链接格式",
+	"settings.linkStyleObsidian": "跟随 Obsidian 的链接设置",
+	"settings.linkStyleMarkdown": "Markdown：![描述](路径)",
+	"settings.linkStyleWikilink": "Wiki 链接：![[路径|描述]]",
+	"settings.compression": "压缩",
+	"settings.compressFormatDesc": "压缩图片时默认转换的格式",
+	"settings.compressQualityDesc": "WebP 和 JPEG 的默认压缩质量",
+	"settings.maxWidth": "最大宽度",
+	"settings.maxWidthDesc": "超过该宽度时等比缩小，0 表示不限制",
+	"settings.maxHeight": "最大高度",
+	"settings.maxHeightDesc": "超过该高度时等比缩小，0 表示不限制",
+};
+
+export type TranslationKey = keyof typeof zh;
+
+const en: Record<TranslationKey, string> = {
+	"common.cancel": "Cancel",
+	"common.close": "Close",
+	"common.noAlt": "No description",
+	"common.none": "None",
+	"common.outputFormat": "Output format",
+	"common.quality": "Quality",
+	"common.maxDimensions": "Maximum width and height",
+	"common.noLimit": "0 means no limit",
+	"common.noImagesFound": "No Base64 images found",
+
+	"widget.chipLabel": "[Image]",
+	"widget.edit": "Edit",
+	"widget.dataOmitted": "Image data hidden",
+	"displayMode.chip": "Text label",
+	"displayMode.thumbnail": "Thumbnail",
+	"displayMode.full": "Full size",
+
+	"modal.title": "Base64 image",
+	"modal.preview": "Preview",
+	"modal.previewTab": "Preview",
+	"modal.svgSourceTab": "SVG source",
+	"modal.svgSyntaxError": "SVG syntax error, changes not applied",
+	"modal.replace": "Replace image",
+	"modal.replaceHint":
+		"Tip: paste an image or a Base64 string, or drop an image onto the preview",
+	"modal.replacePlaceholder":
+		"Paste a Base64 string or an image (Ctrl/Cmd + V)...",
+	"modal.converting": "Converting image...",
+	"modal.convertFailed": "Conversion failed: {message}",
+	"modal.validating": "Validating Base64...",
+	"modal.chooseFile": "Choose file",
+	"modal.chooseFromVault": "Choose from vault",
+	"modal.editImage": "Edit image",
+	"modal.compress": "Compress image",
+	"modal.useCompressed": "Use compressed image",
+	"modal.previewCompression": "Preview compression",
+	"modal.compressing": "Compressing...",
+	"modal.compressResult": "{change}, {before} → {after}",
+	"modal.compressFailed": "Compression failed: {message}",
+	"modal.info": "Image info",
+	"modal.infoAlt": "Description: {alt}",
+	"modal.infoSize": "Size: {size}",
+	"modal.infoFormat": "Format: {format}",
+	"modal.infoDimensions": "Dimensions: {width} × {height}",
+	"modal.infoColor": "Color: {color}",
+	"modal.infoColorDepth": "Color: {color}, {bitDepth}-bit",
+	"modal.infoFrames": "Frames: {frames}",
+	"modal.infoCamera": "Camera: {camera}",
+	"modal.infoTaken": "Taken: {time}",
+	"modal.infoModified": "Modified: {time}",
+	"modal.infoSoftware": "Software: {software}",
+	"modal.infoLocation":
+		"Location: {latitude}, {longitude} (shared along with the note)",
+	"modal.stripMetadata": "Strip metadata",
+	"modal.editAlt": "Edit description",
+	"modal.altPlaceholder": "Enter an image description...",
+	"modal.save": "Save changes",
+	"modal.convertToFile": "Convert to file",
+	"modal.copyBase64": "Copy Base64",
+	"modal.copyImage": "Copy as image",
+	"modal.copyMarkdown": "Copy as Markdown",
+	"modal.copyHtml": "Copy as HTML",
+	"modal.download": "Download image",
+	"modal.saveAs": "Save as...",
+	"modal.delete": "Delete image",
+
+	"metadata.grayscale": "Grayscale",
+	"metadata.grayscale-alpha": "Grayscale with alpha",
+	"metadata.indexed": "Indexed",
+	"metadata.rgb": "RGB",
+	"metadata.rgba": "RGB with alpha",
+	"metadata.cmyk": "CMYK",
+	"notice.convertedToBase64": "Image converted to Base64",
+	"notice.convertFailed": "Failed to convert image",
+	"notice.base64Valid": "Base64 is valid",
+	"notice.base64Invalid": "Invalid Base64",
+	"notice.notAnImage": "The dropped file is not an image",
+	"notice.imageEdited": "Image edited, save to apply",
+	"notice.compressionApplied":
+		"Compressed image applied, click “Save changes” to write it to the note",
+	"notice.notCompressible": "This format cannot be compressed",
+	"notice.base64Copied": "Base64 data copied to clipboard",
+	"notice.imageCopied": "Image copied to clipboard",
+	"notice.markdownCopied": "Markdown image copied to clipboard",
+	"notice.htmlCopied": "HTML image tag copied to clipboard",
+	"notice.copyFailed": "Copy failed: {message}",
+	"notice.metadataRemoved":
+		"Metadata removed, click “Save changes” to write it to the note",
+	"notice.metadataStripped":
+		"Stripped metadata from {images} images in {notes} notes",
+	"notice.noMetadata": "No metadata to strip",
+	"notice.imageMissing":
+		"The image was removed or changed in the note, nothing was written",
+	"notice.imageUpdated": "Image updated",
+	"notice.noActiveFile": "Could not find the current file",
+	"notice.savedToFile": "Image saved to: {path}",
+	"notice.convertToFileFailed": "Failed to convert to a file: {message}",
+	"notice.downloadStarted": "Download started",
+	"notice.saveFailed": "Failed to save: {message}",
+	"notice.imageDeleted": "Image deleted",
+	"notice.displayModeChanged": "Image display mode for this note: {mode}",
+	"notice.imagesFound": "Found {count} Base64 images",
+	"notice.clipboardUnavailable": "Could not read the clipboard",
+	"notice.clipboardNoImage": "There is no image on the clipboard",
+	"notice.cannotLoadImage": "Could not load the image",
+	"notice.imagesNormalized": "Rewrote {count} images",
+	"notice.nothingToNormalize": "No images to rewrite",
+
+	"budget.title": "Images too large",
+	"budget.noteExceeded":
+		"The {count} images in this note take up {size}, over the {budget} limit",
+	"budget.imageExceeded":
+		"The new image ({sizes}) is over the {budget} limit per image",
+	"budget.compress": "Compress images",
+	"budget.extract": "Extract to attachments",
+	"status.summary": "{count} images · {size}",
+	"status.overBudget": "Over the {budget} limit",
+
+	"error.invalidImage": "Invalid Base64 image",
+	"error.unknownFormat": "Unrecognized image format",
+	"error.invalidImageData": "Invalid image data",
+	"error.loadImage": "Could not load the image",
+	"error.createCanvas": "Could not create a canvas",
+	"error.imageChanged": "The image was removed or changed in the note",
+	"error.unsupportedFile": "Only Markdown notes and canvases are supported: {path}",
+
+	"command.pasteAsBase64": "Paste clipboard image as Base64",
+	"command.findAll": "Find all Base64 images",
+	"command.checkImages": "Check Base64 images in vault",
+	"command.cycleDisplayMode": "Cycle image display mode for this note",
+	"command.openIndex": "Open image index",
+	"command.extractInNote": "Extract all images in this note",
+	"command.extractInFolder": "Extract all images in a folder",
+	"command.extractInVault": "Extract all images in the vault",
+	"command.compressInNote": "Compress all images in this note",
+	"command.inlineLocal":
+		"Inline local images as Base64 (current note or selection)",
+	"command.inlineLocalAndDelete":
+		"Inline local images as Base64 and delete unused attachments",
+	"command.moveToReferences":
+		"Move image data in this note to reference definitions",
+	"command.inlineReferences": "Inline referenced images in this note",
+	"command.exportHtml": "Export this note as HTML with images inlined",
+	"command.exportZip": "Export this note as a ZIP with an images folder",
+	"command.nextImage": "Go to next Base64 image",
+	"command.previousImage": "Go to previous Base64 image",
+	"command.listImages": "List Base64 images in this note",
+	"command.editImageAtCursor": "Edit image at cursor",
+	"command.extractImageAtCursor": "Save image at cursor as a local file",
+	"command.copyImageAtCursor": "Copy Base64 data of image at cursor",
+	"command.deleteImageAtCursor": "Delete image at cursor",
+	"command.stripMetadataInNote": "Strip image metadata (EXIF, GPS) in this note",
+	"command.stripMetadataInVault":
+		"Strip image metadata (EXIF, GPS) in the vault",
+
+	"lint.fixMimeType": "Change to {mimeType}",
+	"lint.fixPadding": "Fix padding",
+	"lint.fixUrlSafe": "Convert to standard Base64",
+	"lint.delete": "Delete image",
+	"problem.invalidDataUrl": "Not a valid data URL",
+	"problem.invalidCharacters":
+		"Base64 data contains an invalid character “{char}”",
+	"problem.badPadding":
+		"Base64 data has the wrong length or padding and may be truncated",
+	"problem.undecodable": "Image data cannot be decoded",
+	"problem.unknownFormat": "Image format cannot be recognized from the data",
+	"problem.truncated": "Image data is incomplete and may be truncated",
+	"problem.mimeMismatch":
+		"Declared type {declared} does not match the data ({detected})",
+	"check.title": "Check Base64 images",
+	"check.progress": "Checking {current}/{total}: {path}",
+	"check.problemsFound": "Checked {images} images, found {problems} problems",
+	"check.noProblems": "Checked {images} images, no problems found",
+
+	"index.title": "Base64 image index",
+	"index.sortBySize": "Sort by size",
+	"index.sortByPath": "Sort by note",
+	"index.sortByFormat": "Sort by format",
+	"index.indexing": "Indexing...",
+	"index.summary": "{notes} notes, {images} images, {size} in total",
+	"index.allFormats": "All formats",
+	"index.allFolders": "All folders",
+
+	"batch.title": "Extract Base64 images: {scope}",
+	"batch.analyzing": "Analyzing notes...",
+	"batch.plan": "{images} images ({size}) will be extracted from {notes} notes",
+	"batch.noteImages": "{path} ({count})",
+	"batch.imageLine": "Line {line} · {alt} · {format} · {size}",
+	"batch.canvasFileNodes": "Turn canvas images into file cards",
+	"batch.canvasFileNodesDesc":
+		"Move images out of canvas text cards into file cards next to them, instead of replacing them with links in the card text",
+	"batch.start": "Start extraction",
+	"batch.cancelling": "Cancelling...",
+	"batch.progress": "Processing {path} ({current}/{total})",
+	"batch.cancelled": "Extraction cancelled",
+	"batch.done": "Extraction complete",
+	"batch.notesUpdated": "Notes updated: {count}",
+	"batch.filesWritten": "Files written: {count}",
+	"batch.bytesSaved": "Notes reduced by: {size}",
+	"batch.errors": "{count} images could not be extracted:",
+	"batch.notice": "Extracted {files} images and updated {notes} notes",
+	"suggest.folder": "Choose a folder...",
+	"suggest.image": "Choose an image...",
+	"suggest.noteImage": "Search images by description or format...",
+	"suggest.line": "Line {line}",
+
+	"compress.title": "Compress images: {note}",
+	"compress.start": "Start compression",
+	"compress.nothing": "No images can be compressed",
+	"compress.progress": "Compressing image {current}/{total}",
+	"compress.done": "Compressed {count} images: {change}",
+	"compress.noGain": "No image got smaller, the note was not changed",
+	"compress.notice": "Compressed {count} images",
+	"compress.decreased": "{percent}% smaller",
+	"compress.increased": "{percent}% larger",
+	"compress.sizeChange": "{before} → {after} ({change})",
+
+	"strip.title": "Strip image metadata: {scope}",
+	"strip.plan": "Metadata will be stripped from {images} images in {notes} notes",
+	"strip.start": "Start stripping",
+	"strip.cancelled": "Stripping cancelled",
+
+	"inline.noLinks": "No local image links found",
+	"inline.noteChanged": "The note changed during conversion, please try again",
+	"inline.done": "Inlined {count} images",
+	"inline.deleted": ", deleted {count} attachments",
+	"inline.failed": ", {count} failed",
+
+	"export.done": "Exported {name}",
+	"export.failedImages": ", {count} images could not be exported",
+	"export.failed": "Export failed: {message}",
+
+	"editor.title": "Edit image",
+	"editor.crop": "Crop",
+	"editor.rect": "Rectangle",
+	"editor.arrow": "Arrow",
+	"editor.pen": "Pen",
+	"editor.redact": "Redact",
+	"editor.rotateLeft": "Rotate left",
+	"editor.rotateRight": "Rotate right",
+	"editor.flipHorizontal": "Flip horizontally",
+	"editor.flipVertical": "Flip vertically",
+	"editor.undo": "Undo",
+	"editor.redo": "Redo",
+	"editor.apply": "Apply",
+
+	"settings.language": "Language",
+	"settings.languageDesc": "Command names update after the plugin is reloaded",
+	"settings.languageAuto": "Same as Obsidian",
+	"settings.display": "Editor display",
+	"settings.collapse": "Collapse images",
+	"settings.collapseDesc": "Collapse Base64 images into a label in the editor",
+	"settings.threshold": "Collapse threshold",
+	"settings.thresholdDesc":
+		"Only collapse images whose data is longer than this many characters",
+	"settings.chipLabel": "Label text",
+	"settings.chipLabelDesc":
+		"Text shown before the image description, leave empty for the default",
+	"settings.displayMode": "Display mode",
+	"settings.displayModeDesc":
+		"Show collapsed images as a text label, a thumbnail or at full size. Can be set per note with the {property} property",
+	"settings.thumbnailSize": "Thumbnail height",
+	"settings.thumbnailSizeDesc": "Maximum thumbnail height in pixels",
+	"settings.badge": "Show format and size",
+	"settings.badgeDesc":
+		"Show the image format and pixel size in the corner of thumbnails",
+	"settings.hoverPreview": "Hover preview",
+	"settings.hoverPreviewDesc": "Show a larger image when hovering a thumbnail",
+	"settings.lint": "Check image data",
+	"settings.lintDesc":
+		"Mark corrupt, truncated or mislabelled images in the editor and offer quick fixes",
+	"settings.paste": "Pasting images",
+	"settings.pasteAsBase64": "Paste as Base64",
+	"settings.pasteAsBase64Desc":
+		"Embed images pasted or dropped into the editor as Base64 instead of saving attachments. Can be turned on or off per note with the {property} property",
+	"settings.pasteFolders": "Enabled folders",
+	"settings.pasteFoldersDesc":
+		"When the option above is off, only embed as Base64 in these folders, one per line",
+	"settings.pasteFoldersPlaceholder": "For example: journal/images",
+	"settings.budget": "Size limits",
+	"settings.noteBudget": "Note limit (KB)",
+	"settings.noteBudgetDesc":
+		"Highlight the status bar and warn when saving or pasting images if the decoded Base64 images in a note add up to more than this, 0 means no limit. Can be set per note with the {property} property",
+	"settings.imageBudget": "Image limit (KB)",
+	"settings.imageBudgetDesc":
+		"Warn when a saved or pasted image is larger than this, 0 means no limit",
+	"settings.attachments": "Converting to files",
+	"settings.filenamePattern": "File name template",
+	"settings.filenamePatternDesc":
+		"Variables: {{note}} note name, {{date}} date and time, {{timestamp}} timestamp, {{alt}} image description, {{hash}} content hash",
+	"settings.attachmentFolder": "Folder",
+	"settings.attachmentFolderDesc":
+		"Leave empty to follow Obsidian's attachment settings. Use ${notename} for the note name",
+	"settings.attachmentFolderPlaceholder": "For example: attachments",
+	"settings.linkStyle": "Link format",
+	"settings.linkStyleDesc": "Link format used to replace the image",
+	"settings.linkStyleObsidian": "Follow Obsidian's link settings",
+	"settings.linkStyleMarkdown": "Markdown: ![description](path)",
+	"settings.linkStyleWikilink": "Wikilink: ![[path|description]]",
+	"settings.compression": "Compression",
+	"settings.compressFormatDesc": "Default format when compressing images",
+	"settings.compressQualityDesc": "Default quality for WebP and JPEG",
+	"settings.maxWidth": "Maximum width",
+	"settings.maxWidthDesc":
+		"Scale down images wider than this, 0 means no limit",
+	"settings.maxHeight": "Maximum height",
+	"settings.maxHeightDesc":
+		"Scale down images taller than this, 0 means no limit",
+};
+
+const TRANSLATIONS: Record<Locale, Record<TranslationKey, string>> = {
+	en,
+	zh,
+};
+
+let currentLocale: Locale = "en";
+
+// 根据设置切换界面语言，auto 时使用 Obsidian 的语言
+export function setLanguage(language: LanguageSetting) {
+	currentLocale =
+		language === "auto"
+			? getLanguage().toLowerCase().startsWith("zh")
+				? "zh"
+				: "en"
+			: language;
+}
+
+// 取出当前语言的文字，{name} 会被替换为 vars 中的同名值
+export function t(
+	key: TranslationKey,
+	vars?: Record<string, string | number>,
+): string {
+	const template = TRANSLATIONS[currentLocale][key];
+	if (!vars) return template;
+	return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+		name in vars ? String(vars[name]) : match,
+	);
+}
@@ -0,0 +1,69 @@
+import { Notice } from "obsidian";
+import { compressDataUrl } from "./image-compressor";
+import { decodeDataUrl } from "./image-extractor";
+import { formatHtmlImage, formatMarkdownImage } from "./image-parser";
+import { t } from "./i18n";
+
+// 复制图片时的格式：data URL 文本、位图、Markdown 或 HTML 图片语法
+export type CopyFormat = "data-url" | "image" | "markdown" | "html";
+
+const COPIED_NOTICES = {
+	"data-url": "notice.base64Copied",
+	image: "notice.imageCopied",
+	markdown: "notice.markdownCopied",
+	html: "notice.htmlCopied",
+} as const;
+
+export async function copyImage(
+	image: { alt: string; dataUrl: string },
+	format: CopyFormat,
+) {
+	try {
+		switch (format) {
+			case "image":
+				// 直接传入 Promise，保证写入剪贴板仍在用户操作的上下文中
+				await navigator.clipboard.write([
+					new ClipboardItem({ "image/png": toPngBlob(image.dataUrl) }),
+				]);
+				break;
+			case "markdown":
+				await navigator.clipboard.writeText(
+					formatMarkdownImage(image.alt, image.dataUrl),
+				);
+				break;
+			case "html":
+				await navigator.clipboard.writeText(
+					formatHtmlImage(image.alt, image.dataUrl),
+				);
+				break;
+			default:
+				await navigator.clipboard.writeText(image.dataUrl);
+		}
+		new Notice(t(COPIED_NOTICES[format]));
+	} catch (error) {
+		console.error("复制失败:", error);
+		new Notice(
+			t("notice.copyFailed", {
+				message: error instanceof Error ? error.message : String(error),
+			}),
+		);
+	}
+}
+
+// 其他应用普遍只接受 PNG 位图，其他格式先通过 canvas 转换
+async function toPngBlob(dataUrl: string): Promise<Blob> {
+	let decoded = decodeDataUrl(dataUrl);
+	if (decoded?.format !== "png") {
+		const png = await compressDataUrl(dataUrl, {
+			format: "png",
+			quality: 1,
+			maxWidth: 0,
+			maxHeight: 0,
+		});
+		decoded = decodeDataUrl(png);
+	}
+	if (!decoded) {
+		throw new Error(t("error.invalidImageData"));
+	}
+	return new Blob([decoded.bytes as BlobPart], { type: "image/png" });
+}
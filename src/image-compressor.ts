@@ -0,0 +1,290 @@
+import { App, Modal, Notice, Setting, TFile, ButtonComponent } from "obsidian";
+import {
+	scanBase64Images,
+	formatBytes,
+	getDecodedByteSize,
+	getDataUrlFormat,
+} from "./image-scanner";
+import type { Base64ImageSettings, CompressFormat } from "./settings";
+import { replaceImages, rewriteImage } from "./image-parser";
+import { Base64ImageEvent, triggerImageEvent } from "./api";
+import { t } from "./i18n";
+
+export interface CompressOptions {
+	format: CompressFormat;
+	// 0-1，PNG 忽略此参数
+	quality: number;
+	// 0 表示不限制
+	maxWidth: number;
+	maxHeight: number;
+}
+
+// 压缩时跳过的格式：SVG 是矢量图，GIF 可能是动图
+const UNCOMPRESSIBLE_FORMATS = ["svg", "gif"];
+
+export function getCompressOptions(
+	settings: Base64ImageSettings,
+): CompressOptions {
+	return {
+		format: settings.compressFormat,
+		quality: settings.compressQuality,
+		maxWidth: settings.compressMaxWidth,
+		maxHeight: settings.compressMaxHeight,
+	};
+}
+
+export function isCompressible(dataUrl: string): boolean {
+	return !UNCOMPRESSIBLE_FORMATS.includes(getDataUrlFormat(dataUrl));
+}
+
+// 加载 data URL 为 Image 元素
+export function loadImage(dataUrl: string): Promise<HTMLImageElement> {
+	return new Promise((resolve, reject) => {
+		const img = new Image();
+		img.onload = () => resolve(img);
+		img.onerror = () => reject(new Error(t("error.loadImage")));
+		img.src = dataUrl;
+	});
+}
+
+// 通过 canvas 重新编码图片，可同时缩小尺寸
+export async function compressDataUrl(
+	dataUrl: string,
+	options: CompressOptions,
+): Promise<string> {
+	const img = await loadImage(dataUrl);
+
+	let scale = 1;
+	if (options.maxWidth > 0 && img.naturalWidth > options.maxWidth) {
+		scale = Math.min(scale, options.maxWidth / img.naturalWidth);
+	}
+	if (options.maxHeight > 0 && img.naturalHeight > options.maxHeight) {
+		scale = Math.min(scale, options.maxHeight / img.naturalHeight);
+	}
+
+	const canvas = document.createElement("canvas");
+	canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+	canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+	const ctx = canvas.getContext("2d");
+	if (!ctx) {
+		throw new Error(t("error.createCanvas"));
+	}
+
+	// JPEG 不支持透明，先铺白色背景
+	if (options.format === "jpeg") {
+		ctx.fillStyle = "#ffffff";
+		ctx.fillRect(0, 0, canvas.width, canvas.height);
+	}
+	ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+	return canvas.toDataURL(`image/${options.format}`, options.quality);
+}
+
+// 压缩前后大小对比的描述文字
+export function describeSizeChange(before: number, after: number): string {
+	const percent = before > 0 ? Math.round((1 - after / before) * 100) : 0;
+	const change =
+		percent >= 0
+			? t("compress.decreased", { percent })
+			: t("compress.increased", { percent: -percent });
+	return t("compress.sizeChange", {
+		before: formatBytes(before),
+		after: formatBytes(after),
+		change,
+	});
+}
+
+// 压缩当前笔记中所有 Base64 图片的 Modal
+export class CompressNoteModal extends Modal {
+	private options: CompressOptions;
+	private running = false;
+	private cancelled = false;
+
+	constructor(
+		app: App,
+		settings: Base64ImageSettings,
+		private file: TFile,
+	) {
+		super(app);
+		this.options = getCompressOptions(settings);
+	}
+
+	onOpen() {
+		this.setTitle(t("compress.title", { note: this.file.basename }));
+		this.renderOptions();
+	}
+
+	onClose() {
+		this.cancelled = true;
+		this.contentEl.empty();
+	}
+
+	private renderOptions() {
+		const { contentEl, options } = this;
+		contentEl.empty();
+
+		new Setting(contentEl)
+			.setName(t("common.outputFormat"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ webp: "WebP", jpeg: "JPEG", png: "PNG" })
+					.setValue(options.format)
+					.onChange((value) => {
+						options.format = value as CompressFormat;
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("common.quality"))
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.1, 1, 0.05)
+					.setValue(options.quality)
+					.onChange((value) => {
+						options.quality = value;
+					}),
+			);
+
+		new Setting(contentEl)
+			.setName(t("common.maxDimensions"))
+			.setDesc(t("common.noLimit"))
+			.addText((text) =>
+				text.setValue(String(options.maxWidth)).onChange((value) => {
+					options.maxWidth = Math.max(0, parseInt(value, 10) || 0);
+				}),
+			)
+			.addText((text) =>
+				text.setValue(String(options.maxHeight)).onChange((value) => {
+					options.maxHeight = Math.max(0, parseInt(value, 10) || 0);
+				}),
+			);
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("common.cancel"))
+			.onClick(() => {
+				this.close();
+			});
+		new ButtonComponent(buttons)
+			.setButtonText(t("compress.start"))
+			.setCta()
+			.onClick(() => {
+				void this.runCompression();
+			});
+	}
+
+	private async runCompression() {
+		if (this.running) return;
+		this.running = true;
+
+		const { contentEl } = this;
+		contentEl.empty();
+
+		const images = scanBase64Images(
+			await this.app.vault.read(this.file),
+		).filter((image) => isCompressible(image.dataUrl));
+
+		if (images.length === 0) {
+			contentEl.createDiv({
+				cls: "base64-batch-summary",
+				text: t("compress.nothing"),
+			});
+			return;
+		}
+
+		const statusEl = contentEl.createDiv({ cls: "base64-batch-status" });
+		const progressEl = contentEl.createEl("progress", {
+			cls: "base64-batch-progress",
+		});
+		progressEl.max = images.length;
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		const cancelBtn = new ButtonComponent(buttons)
+			.setButtonText(t("common.cancel"))
+			.onClick(() => {
+				this.cancelled = true;
+				cancelBtn.setDisabled(true);
+			});
+
+		// 原图片文本 → 压缩后的文本；只保留确实变小的结果
+		const replacements = new Map<string, string>();
+		const replacedImages: Base64ImageEvent[] = [];
+		let before = 0;
+		let after = 0;
+		let done = 0;
+
+		for (const image of images) {
+			if (this.cancelled) break;
+			statusEl.setText(
+				t("compress.progress", {
+					current: done + 1,
+					total: images.length,
+				}),
+			);
+
+			if (!replacements.has(image.fullText)) {
+				try {
+					const compressed = await compressDataUrl(
+						image.dataUrl,
+						this.options,
+					);
+					const compressedSize = getDecodedByteSize(compressed);
+					if (compressedSize < image.byteSize) {
+						replacements.set(
+							image.fullText,
+							rewriteImage(image, { dataUrl: compressed }),
+						);
+						replacedImages.push({
+							file: this.file,
+							alt: image.alt,
+							dataUrl: compressed,
+							previousDataUrl: image.dataUrl,
+						});
+						before += image.byteSize;
+						after += compressedSize;
+					}
+				} catch (error) {
+					console.error("压缩失败:", error);
+				}
+			}
+
+			done++;
+			progressEl.value = done;
+		}
+
+		if (replacements.size > 0) {
+			await this.app.vault.process(this.file, (content) =>
+				replaceImages(
+					content,
+					(image) => replacements.get(image.fullText) ?? null,
+				),
+			);
+			for (const event of replacedImages) {
+				triggerImageEvent(this.app, "replaced", event);
+			}
+		}
+
+		contentEl.empty();
+		contentEl.createDiv({
+			cls: "base64-batch-summary",
+			text:
+				replacements.size > 0
+					? t("compress.done", {
+							count: replacements.size,
+							change: describeSizeChange(before, after),
+						})
+					: t("compress.noGain"),
+		});
+		const closeButtons = contentEl.createDiv({
+			cls: "base64-batch-buttons",
+		});
+		new ButtonComponent(closeButtons)
+			.setButtonText(t("common.close"))
+			.onClick(() => {
+				this.close();
+			});
+		new Notice(t("compress.notice", { count: replacements.size }));
+		this.running = false;
+	}
+}
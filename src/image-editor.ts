@@ -0,0 +1,449 @@
+import {
+	App,
+	ButtonComponent,
+	ExtraButtonComponent,
+	Modal,
+	Notice,
+} from "obsidian";
+import { parseDataUrl } from "./data-url";
+import { t, type TranslationKey } from "./i18n";
+import { loadImage } from "./image-compressor";
+
+type EditorTool = "crop" | "rect" | "arrow" | "pen" | "redact";
+
+interface Point {
+	x: number;
+	y: number;
+}
+
+const TOOLS: { tool: EditorTool; icon: string; label: TranslationKey }[] = [
+	{ tool: "crop", icon: "crop", label: "editor.crop" },
+	{ tool: "rect", icon: "square", label: "editor.rect" },
+	{ tool: "arrow", icon: "arrow-up-right", label: "editor.arrow" },
+	{ tool: "pen", icon: "pencil", label: "editor.pen" },
+	{ tool: "redact", icon: "eye-off", label: "editor.redact" },
+];
+
+// 可以直接输出的格式，其余格式（如 SVG、GIF）编辑后保存为 PNG
+const OUTPUT_TYPES = ["image/png", "image/jpeg", "image/webp"];
+// 撤销记录的最大步数，每一步都保存整张画布
+const MAX_HISTORY = 30;
+// 打码时每个色块的边长（像素）
+const REDACT_BLOCK_SIZE = 12;
+
+// 在画布上裁剪、旋转、翻转和标注图片，完成后以新的 data URL 回调
+export class ImageEditorModal extends Modal {
+	// 已确认的图片内容；显示画布在此基础上绘制正在拖动的形状
+	private image = document.createElement("canvas");
+	private canvas: HTMLCanvasElement | null = null;
+	private undoStack: HTMLCanvasElement[] = [];
+	private redoStack: HTMLCanvasElement[] = [];
+	private tool: EditorTool = "rect";
+	private color = "#e03131";
+	private lineWidth = 4;
+	// 当前拖动的起点和经过的点
+	private dragPoints: Point[] = [];
+	private toolButtons = new Map<EditorTool, ExtraButtonComponent>();
+	private undoButton: ExtraButtonComponent | null = null;
+	private redoButton: ExtraButtonComponent | null = null;
+
+	constructor(
+		app: App,
+		private dataUrl: string,
+		private onApply: (dataUrl: string) => void,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		this.setTitle(t("editor.title"));
+		this.modalEl.addClass("base64-editor-modal");
+		void this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.undoStack = [];
+		this.redoStack = [];
+	}
+
+	private async render() {
+		const { contentEl } = this;
+
+		let img: HTMLImageElement;
+		try {
+			img = await loadImage(this.dataUrl);
+		} catch {
+			new Notice(t("notice.cannotLoadImage"));
+			this.close();
+			return;
+		}
+
+		this.image.width = img.naturalWidth;
+		this.image.height = img.naturalHeight;
+		this.image.getContext("2d")?.drawImage(img, 0, 0);
+
+		const toolbar = contentEl.createDiv({ cls: "base64-editor-toolbar" });
+		for (const { tool, icon, label } of TOOLS) {
+			const button = new ExtraButtonComponent(toolbar)
+				.setIcon(icon)
+				.setTooltip(t(label))
+				.onClick(() => this.setTool(tool));
+			this.toolButtons.set(tool, button);
+		}
+
+		toolbar.createDiv({ cls: "base64-editor-separator" });
+		const colorInput = toolbar.createEl("input", {
+			type: "color",
+			cls: "base64-editor-color",
+		});
+		colorInput.value = this.color;
+		colorInput.addEventListener("input", () => {
+			this.color = colorInput.value;
+		});
+
+		toolbar.createDiv({ cls: "base64-editor-separator" });
+		new ExtraButtonComponent(toolbar)
+			.setIcon("rotate-ccw")
+			.setTooltip(t("editor.rotateLeft"))
+			.onClick(() => this.rotate(-1));
+		new ExtraButtonComponent(toolbar)
+			.setIcon("rotate-cw")
+			.setTooltip(t("editor.rotateRight"))
+			.onClick(() => this.rotate(1));
+		new ExtraButtonComponent(toolbar)
+			.setIcon("flip-horizontal")
+			.setTooltip(t("editor.flipHorizontal"))
+			.onClick(() => this.flip(true));
+		new ExtraButtonComponent(toolbar)
+			.setIcon("flip-vertical")
+			.setTooltip(t("editor.flipVertical"))
+			.onClick(() => this.flip(false));
+
+		toolbar.createDiv({ cls: "base64-editor-separator" });
+		this.undoButton = new ExtraButtonComponent(toolbar)
+			.setIcon("undo")
+			.setTooltip(t("editor.undo"))
+			.onClick(() => this.undo());
+		this.redoButton = new ExtraButtonComponent(toolbar)
+			.setIcon("redo")
+			.setTooltip(t("editor.redo"))
+			.onClick(() => this.redo());
+
+		const canvasContainer = contentEl.createDiv({
+			cls: "base64-editor-canvas-container",
+		});
+		this.canvas = canvasContainer.createEl("canvas", {
+			cls: "base64-editor-canvas",
+		});
+		this.registerPointerEvents(this.canvas);
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("common.cancel"))
+			.onClick(() => {
+				this.close();
+			});
+		new ButtonComponent(buttons)
+			.setButtonText(t("editor.apply"))
+			.setCta()
+			.onClick(() => {
+				this.onApply(this.export());
+				this.close();
+			});
+
+		this.setTool(this.tool);
+		this.redraw();
+	}
+
+	private setTool(tool: EditorTool) {
+		this.tool = tool;
+		this.toolButtons.forEach((button, key) => {
+			button.extraSettingsEl.toggleClass("is-active", key === tool);
+		});
+	}
+
+	private registerPointerEvents(canvas: HTMLCanvasElement) {
+		canvas.addEventListener("pointerdown", (e) => {
+			canvas.setPointerCapture(e.pointerId);
+			this.dragPoints = [this.toImagePoint(e)];
+		});
+
+		canvas.addEventListener("pointermove", (e) => {
+			if (this.dragPoints.length === 0) return;
+			const point = this.toImagePoint(e);
+			if (this.tool === "pen") {
+				this.dragPoints.push(point);
+			} else {
+				this.dragPoints[1] = point;
+			}
+			this.redraw();
+		});
+
+		const finish = (e: PointerEvent) => {
+			if (this.dragPoints.length === 0) return;
+			canvas.releasePointerCapture(e.pointerId);
+			const points = this.dragPoints;
+			this.dragPoints = [];
+			if (points.length > 1) {
+				this.commit(points);
+			}
+			this.redraw();
+		};
+		canvas.addEventListener("pointerup", finish);
+		canvas.addEventListener("pointercancel", finish);
+	}
+
+	// 将鼠标位置换算为图片像素坐标（画布按 CSS 缩放显示），并限制在图片范围内
+	private toImagePoint(e: PointerEvent): Point {
+		const { width, height } = this.image;
+		const rect = (this.canvas as HTMLCanvasElement).getBoundingClientRect();
+		const x = ((e.clientX - rect.left) / rect.width) * width;
+		const y = ((e.clientY - rect.top) / rect.height) * height;
+		return {
+			x: Math.round(Math.min(Math.max(x, 0), width)),
+			y: Math.round(Math.min(Math.max(y, 0), height)),
+		};
+	}
+
+	// 将拖动完成的操作应用到图片上
+	private commit(points: Point[]) {
+		const rect = toRect(points);
+		if (this.tool !== "pen" && (rect.width < 2 || rect.height < 2)) {
+			return;
+		}
+
+		if (this.tool === "crop") {
+			this.transform(rect.width, rect.height, (ctx, source) => {
+				ctx.drawImage(source, -rect.x, -rect.y);
+			});
+			return;
+		}
+
+		this.pushHistory();
+		const ctx = this.image.getContext("2d");
+		if (ctx) {
+			this.drawShape(ctx, points);
+		}
+	}
+
+	// 在画布上绘制标注；拖动中的预览也使用同一方法
+	private drawShape(ctx: CanvasRenderingContext2D, points: Point[]) {
+		const [start, end] = [points[0], points[points.length - 1]];
+		if (!start || !end) return;
+		const rect = toRect(points);
+
+		ctx.save();
+		ctx.strokeStyle = this.color;
+		ctx.fillStyle = this.color;
+		ctx.lineWidth = this.scaledLineWidth();
+		ctx.lineCap = "round";
+		ctx.lineJoin = "round";
+
+		switch (this.tool) {
+			case "crop":
+				// 裁剪区域外变暗
+				ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+				ctx.beginPath();
+				ctx.rect(0, 0, this.image.width, this.image.height);
+				ctx.rect(rect.x, rect.y, rect.width, rect.height);
+				ctx.fill("evenodd");
+				break;
+			case "rect":
+				ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+				break;
+			case "arrow":
+				drawArrow(ctx, start, end, ctx.lineWidth);
+				break;
+			case "pen":
+				ctx.beginPath();
+				ctx.moveTo(start.x, start.y);
+				for (const point of points) {
+					ctx.lineTo(point.x, point.y);
+				}
+				ctx.stroke();
+				break;
+			case "redact":
+				pixelate(ctx, rect);
+				break;
+		}
+
+		ctx.restore();
+	}
+
+	// 线宽随图片尺寸缩放，保证在不同大小的图片上看起来一致
+	private scaledLineWidth(): number {
+		const canvas = this.canvas;
+		if (!canvas || canvas.clientWidth === 0) return this.lineWidth;
+		return Math.max(
+			1,
+			(this.lineWidth * this.image.width) / canvas.clientWidth,
+		);
+	}
+
+	private rotate(direction: 1 | -1) {
+		const { width, height } = this.image;
+		this.transform(height, width, (ctx, source) => {
+			ctx.translate(height / 2, width / 2);
+			ctx.rotate((direction * Math.PI) / 2);
+			ctx.drawImage(source, -width / 2, -height / 2);
+		});
+	}
+
+	private flip(horizontal: boolean) {
+		const { width, height } = this.image;
+		this.transform(width, height, (ctx, source) => {
+			ctx.translate(horizontal ? width : 0, horizontal ? 0 : height);
+			ctx.scale(horizontal ? -1 : 1, horizontal ? 1 : -1);
+			ctx.drawImage(source, 0, 0);
+		});
+	}
+
+	// 以当前图片为源重新绘制到新尺寸的画布上
+	private transform(
+		width: number,
+		height: number,
+		draw: (
+			ctx: CanvasRenderingContext2D,
+			source: HTMLCanvasElement,
+		) => void,
+	) {
+		this.pushHistory();
+		const source = cloneCanvas(this.image);
+		this.image.width = width;
+		this.image.height = height;
+		const ctx = this.image.getContext("2d");
+		if (ctx) {
+			draw(ctx, source);
+		}
+		this.redraw();
+	}
+
+	private pushHistory() {
+		this.undoStack.push(cloneCanvas(this.image));
+		if (this.undoStack.length > MAX_HISTORY) {
+			this.undoStack.shift();
+		}
+		this.redoStack = [];
+		this.updateHistoryButtons();
+	}
+
+	private undo() {
+		const previous = this.undoStack.pop();
+		if (!previous) return;
+		this.redoStack.push(this.image);
+		this.image = previous;
+		this.redraw();
+	}
+
+	private redo() {
+		const next = this.redoStack.pop();
+		if (!next) return;
+		this.undoStack.push(this.image);
+		this.image = next;
+		this.redraw();
+	}
+
+	private updateHistoryButtons() {
+		this.undoButton?.setDisabled(this.undoStack.length === 0);
+		this.redoButton?.setDisabled(this.redoStack.length === 0);
+	}
+
+	private redraw() {
+		const canvas = this.canvas;
+		if (!canvas) return;
+
+		canvas.width = this.image.width;
+		canvas.height = this.image.height;
+		const ctx = canvas.getContext("2d");
+		if (!ctx) return;
+
+		ctx.drawImage(this.image, 0, 0);
+		if (this.dragPoints.length > 1) {
+			this.drawShape(ctx, this.dragPoints);
+		}
+		this.updateHistoryButtons();
+	}
+
+	// 按原图格式导出；无法由画布输出的格式改为 PNG
+	private export(): string {
+		const mimeType = parseDataUrl(this.dataUrl)?.mimeType ?? "";
+		return this.image.toDataURL(
+			OUTPUT_TYPES.includes(mimeType) ? mimeType : "image/png",
+			0.92,
+		);
+	}
+}
+
+function toRect(points: Point[]) {
+	const start = points[0] ?? { x: 0, y: 0 };
+	const end = points[points.length - 1] ?? start;
+	return {
+		x: Math.min(start.x, end.x),
+		y: Math.min(start.y, end.y),
+		width: Math.abs(end.x - start.x),
+		height: Math.abs(end.y - start.y),
+	};
+}
+
+function cloneCanvas(source: HTMLCanvasElement): HTMLCanvasElement {
+	const canvas = document.createElement("canvas");
+	canvas.width = source.width;
+	canvas.height = source.height;
+	canvas.getContext("2d")?.drawImage(source, 0, 0);
+	return canvas;
+}
+
+function drawArrow(
+	ctx: CanvasRenderingContext2D,
+	start: Point,
+	end: Point,
+	lineWidth: number,
+) {
+	const angle = Math.atan2(end.y - start.y, end.x - start.x);
+	const headLength = Math.max(10, lineWidth * 4);
+
+	ctx.beginPath();
+	ctx.moveTo(start.x, start.y);
+	ctx.lineTo(end.x, end.y);
+	ctx.stroke();
+
+	ctx.beginPath();
+	ctx.moveTo(end.x, end.y);
+	ctx.lineTo(
+		end.x - headLength * Math.cos(angle - Math.PI / 6),
+		end.y - headLength * Math.sin(angle - Math.PI / 6),
+	);
+	ctx.lineTo(
+		end.x - headLength * Math.cos(angle + Math.PI / 6),
+		end.y - headLength * Math.sin(angle + Math.PI / 6),
+	);
+	ctx.closePath();
+	ctx.fill();
+}
+
+// 将区域缩小后再不平滑地放大，得到马赛克效果
+function pixelate(
+	ctx: CanvasRenderingContext2D,
+	rect: { x: number; y: number; width: number; height: number },
+) {
+	const small = document.createElement("canvas");
+	small.width = Math.max(1, Math.ceil(rect.width / REDACT_BLOCK_SIZE));
+	small.height = Math.max(1, Math.ceil(rect.height / REDACT_BLOCK_SIZE));
+	small
+		.getContext("2d")
+		?.drawImage(
+			ctx.canvas,
+			rect.x,
+			rect.y,
+			rect.width,
+			rect.height,
+			0,
+			0,
+			small.width,
+			small.height,
+		);
+
+	ctx.imageSmoothingEnabled = false;
+	ctx.drawImage(small, rect.x, rect.y, rect.width, rect.height);
+}
@@ -0,0 +1,227 @@
+import { App, TFile, moment, normalizePath } from "obsidian";
+import type { Base64ImageSettings } from "./settings";
+import { t } from "./i18n";
+import { ParsedImage, rewriteImage } from "./image-parser";
+import {
+	decodeDataUrlBytes,
+	detectMimeType,
+	mimeTypeToExtension,
+	parseDataUrl,
+} from "./data-url";
+
+// 提取后的本地文件信息
+export interface ExtractedImage {
+	path: string;
+	// 用于替换原图片的文本
+	markdown: string;
+}
+
+// 解析 data URL，返回文件扩展名和二进制数据；
+// 声明的 MIME 类型无法识别时根据文件头判断
+export function decodeDataUrl(
+	dataUrl: string,
+): { format: string; bytes: Uint8Array } | null {
+	const info = parseDataUrl(dataUrl);
+	const bytes = decodeDataUrlBytes(dataUrl);
+	if (!info || !bytes) return null;
+
+	const mimeType = info.mimeType.startsWith("image/")
+		? info.mimeType
+		: detectMimeType(bytes);
+	if (!mimeType) return null;
+
+	return { format: mimeTypeToExtension(mimeType), bytes };
+}
+
+// 计算字符串的短哈希（FNV-1a），用于文件名中的 {{hash}}
+function shortHash(text: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= text.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+// 根据文件名模板生成附件文件名（不含扩展名）
+export function formatAttachmentName(
+	pattern: string,
+	sourceFile: TFile,
+	alt: string,
+	dataUrl: string,
+): string {
+	const name = (pattern || "image-{{timestamp}}")
+		.replace(/\{\{note\}\}/g, () => sourceFile.basename)
+		.replace(/\{\{date\}\}/g, moment().format("YYYYMMDDHHmmss"))
+		.replace(/\{\{timestamp\}\}/g, String(Date.now()))
+		.replace(/\{\{alt\}\}/g, () => alt)
+		.replace(/\{\{hash\}\}/g, shortHash(dataUrl))
+		// 移除文件名中不允许或会破坏链接的字符
+		.replace(/[\\/:*?"<>|#^[\]]/g, "")
+		.trim();
+	return name || "image";
+}
+
+// 确保文件夹存在
+export async function ensureFolderExists(app: App, path: string) {
+	const folders = path.split("/");
+	let currentPath = "";
+
+	for (const folder of folders) {
+		currentPath = currentPath ? `${currentPath}/${folder}` : folder;
+		if (!(await app.vault.adapter.exists(currentPath))) {
+			await app.vault.createFolder(currentPath);
+		}
+	}
+}
+
+// 在文件夹中找一个未被占用的文件名
+async function getAvailablePath(
+	app: App,
+	folderPath: string,
+	baseName: string,
+	extension: string,
+): Promise<string> {
+	const prefix = folderPath === "/" ? "" : `${folderPath}/`;
+	let filePath = `${prefix}${baseName}.${extension}`;
+	let suffix = 1;
+	while (await app.vault.adapter.exists(filePath)) {
+		filePath = `${prefix}${baseName}-${suffix}.${extension}`;
+		suffix++;
+	}
+	return filePath;
+}
+
+// 解析附件的保存路径：插件设置了文件夹时使用该文件夹，
+// 否则与 Obsidian 保存粘贴的附件时规则一致（支持 ./ 和子文件夹）
+async function resolveAttachmentPath(
+	app: App,
+	settings: Base64ImageSettings,
+	sourceFile: TFile,
+	baseName: string,
+	extension: string,
+): Promise<string> {
+	if (!settings.attachmentFolder) {
+		return app.fileManager.getAvailablePathForAttachment(
+			`${baseName}.${extension}`,
+			sourceFile.path,
+		);
+	}
+
+	const folderPath = normalizePath(
+		settings.attachmentFolder.replace("${notename}", sourceFile.basename),
+	);
+	if (folderPath !== "/") {
+		await ensureFolderExists(app, folderPath);
+	}
+	return getAvailablePath(app, folderPath, baseName, extension);
+}
+
+// 按设置的链接格式生成图片嵌入链接
+export function buildImageLink(
+	app: App,
+	settings: Base64ImageSettings,
+	file: TFile,
+	sourcePath: string,
+	alt: string,
+): string {
+	switch (settings.linkStyle) {
+		case "wikilink":
+			return alt ? `![[${file.path}|${alt}]]` : `![[${file.path}]]`;
+		case "markdown":
+			return `![${alt}](${encodeURI(file.path)})`;
+		default: {
+			// 使用 Obsidian 自身的链接生成，遵循仓库的 Wiki 链接和相对路径设置
+			const link = app.fileManager.generateMarkdownLink(
+				file,
+				sourcePath,
+				undefined,
+				alt,
+			);
+			return link.startsWith("!") ? link : `!${link}`;
+		}
+	}
+}
+
+// 写入二进制文件；只写入视图范围内的字节，而不是整个底层缓冲区
+function createBinaryFile(
+	app: App,
+	path: string,
+	bytes: Uint8Array,
+): Promise<TFile> {
+	return app.vault.createBinary(path, bytes.slice().buffer);
+}
+
+// 将 data URL 图片保存为附件文件，返回文件路径和替换用的文本
+export async function saveImageAsAttachment(
+	app: App,
+	settings: Base64ImageSettings,
+	image: ParsedImage,
+	sourceFile: TFile,
+): Promise<ExtractedImage> {
+	const decoded = decodeDataUrl(image.dataUrl);
+	if (!decoded) {
+		throw new Error(t("error.invalidImageData"));
+	}
+
+	const filePath = await resolveAttachmentPath(
+		app,
+		settings,
+		sourceFile,
+		formatAttachmentName(
+			settings.filenamePattern,
+			sourceFile,
+			image.alt,
+			image.dataUrl,
+		),
+		decoded.format,
+	);
+	const file = await createBinaryFile(app, filePath, decoded.bytes);
+
+	return {
+		path: file.path,
+		markdown: buildReplacement(app, settings, image, file, sourceFile.path),
+	};
+}
+
+// 将 data URL 图片以真实的扩展名保存到指定文件夹，返回新文件
+export async function saveImageToFolder(
+	app: App,
+	dataUrl: string,
+	folderPath: string,
+	baseName: string,
+): Promise<TFile> {
+	const decoded = decodeDataUrl(dataUrl);
+	if (!decoded) {
+		throw new Error(t("error.invalidImageData"));
+	}
+
+	if (folderPath !== "/") {
+		await ensureFolderExists(app, folderPath);
+	}
+	const filePath = await getAvailablePath(
+		app,
+		folderPath,
+		baseName,
+		decoded.format,
+	);
+	return createBinaryFile(app, filePath, decoded.bytes);
+}
+
+// 生成替换原图片的文本：Markdown 图片按链接设置生成，
+// HTML 和引用定义保持原语法，只把 data URL 换成文件路径
+function buildReplacement(
+	app: App,
+	settings: Base64ImageSettings,
+	image: ParsedImage,
+	file: TFile,
+	sourcePath: string,
+): string {
+	if (image.syntax !== "markdown") {
+		return rewriteImage(image, { dataUrl: encodeURI(file.path) });
+	}
+
+	// 保留 Obsidian 尺寸后缀 ![alt|300]
+	const alt = image.size ? `${image.alt}|${image.size}` : image.alt;
+	return buildImageLink(app, settings, file, sourcePath, alt);
+}
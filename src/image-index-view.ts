@@ -0,0 +1,309 @@
+import {
+	ItemView,
+	WorkspaceLeaf,
+	TFile,
+	TAbstractFile,
+	MarkdownView,
+	DropdownComponent,
+	debounce,
+} from "obsidian";
+import { Base64ImageMatch, formatBytes } from "./image-scanner";
+import { getNotesAndCanvases, isNoteOrCanvas, scanFileImages } from "./canvas";
+import { t } from "./i18n";
+
+export const VIEW_TYPE_BASE64_INDEX = "base64-image-index";
+
+// 索引中的一条记录：图片 + 所在笔记
+interface IndexedImage extends Base64ImageMatch {
+	path: string;
+}
+
+type SortKey = "size" | "path" | "format";
+
+// 侧边栏视图：索引整个仓库中的 Base64 图片
+export class Base64ImageIndexView extends ItemView {
+	private index = new Map<string, Base64ImageMatch[]>();
+	private sortKey: SortKey = "size";
+	private formatFilter = "";
+	private folderFilter = "";
+
+	private summaryEl: HTMLElement | null = null;
+	private listEl: HTMLElement | null = null;
+	private formatDropdown: DropdownComponent | null = null;
+	private folderDropdown: DropdownComponent | null = null;
+
+	private requestRender = debounce(() => this.render(), 300, true);
+
+	constructor(leaf: WorkspaceLeaf) {
+		super(leaf);
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_BASE64_INDEX;
+	}
+
+	getDisplayText(): string {
+		return t("index.title");
+	}
+
+	getIcon(): string {
+		return "image";
+	}
+
+	async onOpen() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("base64-index-view");
+
+		// 工具栏：排序和筛选
+		const toolbar = container.createDiv({ cls: "base64-index-toolbar" });
+
+		new DropdownComponent(toolbar)
+			.addOptions({
+				size: t("index.sortBySize"),
+				path: t("index.sortByPath"),
+				format: t("index.sortByFormat"),
+			})
+			.setValue(this.sortKey)
+			.onChange((value) => {
+				this.sortKey = value as SortKey;
+				this.render();
+			});
+
+		this.formatDropdown = new DropdownComponent(toolbar).onChange(
+			(value) => {
+				this.formatFilter = value;
+				this.render();
+			},
+		);
+
+		this.folderDropdown = new DropdownComponent(toolbar).onChange(
+			(value) => {
+				this.folderFilter = value;
+				this.render();
+			},
+		);
+
+		this.summaryEl = container.createDiv({ cls: "base64-index-summary" });
+		this.listEl = container.createDiv({ cls: "base64-index-list" });
+
+		// 监听仓库变化，保持索引最新
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => {
+				void this.onFileChanged(file);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("create", (file) => {
+				void this.onFileChanged(file);
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				if (this.index.delete(file.path)) {
+					this.requestRender();
+				}
+			}),
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				const entries = this.index.get(oldPath);
+				this.index.delete(oldPath);
+				if (entries && isNoteOrCanvas(file)) {
+					this.index.set(file.path, entries);
+				}
+				this.requestRender();
+			}),
+		);
+
+		await this.rebuildIndex();
+	}
+
+	async onClose() {
+		this.index.clear();
+	}
+
+	// 重新扫描仓库中所有 Markdown 文件和 canvas
+	async rebuildIndex() {
+		this.index.clear();
+		this.summaryEl?.setText(t("index.indexing"));
+
+		for (const file of getNotesAndCanvases(this.app)) {
+			await this.indexFile(file);
+		}
+
+		this.render();
+	}
+
+	private async onFileChanged(file: TAbstractFile) {
+		if (!isNoteOrCanvas(file)) return;
+		await this.indexFile(file);
+		this.requestRender();
+	}
+
+	private async indexFile(file: TFile) {
+		const content = await this.app.vault.cachedRead(file);
+		const images = scanFileImages(file, content);
+
+		if (images.length > 0) {
+			this.index.set(file.path, images);
+		} else {
+			this.index.delete(file.path);
+		}
+	}
+
+	private getAllEntries(): IndexedImage[] {
+		const entries: IndexedImage[] = [];
+		this.index.forEach((images, path) => {
+			for (const image of images) {
+				entries.push({ ...image, path });
+			}
+		});
+		return entries;
+	}
+
+	private render() {
+		if (!this.listEl || !this.summaryEl) return;
+
+		const allEntries = this.getAllEntries();
+		this.updateFilterOptions(allEntries);
+
+		const entries = allEntries
+			.filter(
+				(entry) =>
+					!this.formatFilter || entry.format === this.formatFilter,
+			)
+			.filter(
+				(entry) =>
+					!this.folderFilter ||
+					getFolder(entry.path) === this.folderFilter ||
+					getFolder(entry.path).startsWith(`${this.folderFilter}/`),
+			)
+			.sort((a, b) => this.compareEntries(a, b));
+
+		const totalBytes = entries.reduce((sum, e) => sum + e.byteSize, 0);
+		const noteCount = new Set(entries.map((e) => e.path)).size;
+		this.summaryEl.setText(
+			t("index.summary", {
+				notes: noteCount,
+				images: entries.length,
+				size: formatBytes(totalBytes),
+			}),
+		);
+
+		this.listEl.empty();
+		if (entries.length === 0) {
+			this.listEl.createDiv({
+				cls: "base64-index-empty",
+				text: t("common.noImagesFound"),
+			});
+			return;
+		}
+
+		for (const entry of entries) {
+			const item = this.listEl.createDiv({ cls: "base64-index-item" });
+
+			const header = item.createDiv({ cls: "base64-index-item-header" });
+			header.createSpan({
+				cls: "base64-index-item-alt",
+				text: entry.alt || t("common.noAlt"),
+			});
+			header.createSpan({
+				cls: "base64-index-item-meta",
+				text: `${entry.format.toUpperCase()} · ${formatBytes(entry.byteSize)}`,
+			});
+
+			item.createDiv({
+				cls: "base64-index-item-path",
+				text: `${entry.path}:${entry.line + 1}`,
+			});
+
+			item.addEventListener("click", () => {
+				void this.openEntry(entry);
+			});
+		}
+	}
+
+	private compareEntries(a: IndexedImage, b: IndexedImage): number {
+		switch (this.sortKey) {
+			case "path":
+				return a.path.localeCompare(b.path) || a.from - b.from;
+			case "format":
+				return (
+					a.format.localeCompare(b.format) || b.byteSize - a.byteSize
+				);
+			default:
+				return b.byteSize - a.byteSize;
+		}
+	}
+
+	// 根据当前索引内容刷新格式和文件夹筛选项
+	private updateFilterOptions(entries: IndexedImage[]) {
+		const formats = [...new Set(entries.map((e) => e.format))].sort();
+		const folders = new Set<string>();
+		for (const entry of entries) {
+			// 同时加入所有上级文件夹，方便按大目录筛选
+			let folder = getFolder(entry.path);
+			while (folder) {
+				folders.add(folder);
+				folder = getFolder(folder);
+			}
+		}
+
+		if (!formats.includes(this.formatFilter)) this.formatFilter = "";
+		if (!folders.has(this.folderFilter)) this.folderFilter = "";
+
+		resetDropdown(
+			this.formatDropdown,
+			t("index.allFormats"),
+			formats,
+			(format) => format.toUpperCase(),
+		);
+		this.formatDropdown?.setValue(this.formatFilter);
+
+		resetDropdown(
+			this.folderDropdown,
+			t("index.allFolders"),
+			[...folders].sort(),
+			(folder) => folder,
+		);
+		this.folderDropdown?.setValue(this.folderFilter);
+	}
+
+	// 打开笔记并滚动到图片位置
+	private async openEntry(entry: IndexedImage) {
+		const file = this.app.vault.getFileByPath(entry.path);
+		if (!file) return;
+
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file, { eState: { line: entry.line } });
+
+		if (leaf.view instanceof MarkdownView) {
+			const editor = leaf.view.editor;
+			const from = editor.offsetToPos(entry.from);
+			const to = editor.offsetToPos(entry.to);
+			editor.setCursor(from);
+			editor.scrollIntoView({ from, to }, true);
+			editor.focus();
+		}
+	}
+}
+
+function getFolder(path: string): string {
+	const slashIndex = path.lastIndexOf("/");
+	return slashIndex === -1 ? "" : path.substring(0, slashIndex);
+}
+
+function resetDropdown(
+	dropdown: DropdownComponent | null,
+	allLabel: string,
+	values: string[],
+	label: (value: string) => string,
+) {
+	if (!dropdown) return;
+	dropdown.selectEl.empty();
+	dropdown.addOption("", allLabel);
+	for (const value of values) {
+		dropdown.addOption(value, label(value));
+	}
+}
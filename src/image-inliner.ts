@@ -0,0 +1,300 @@
+import {
+	App,
+	Editor,
+	EditorChange,
+	FuzzySuggestModal,
+	Notice,
+	TFile,
+	arrayBufferToBase64,
+} from "obsidian";
+import { triggerImageEvent } from "./api";
+import { isCanvasFile, parseCanvas } from "./canvas";
+import {
+	findCodeRanges,
+	formatMarkdownImage,
+	splitSizeSuffix,
+	unescapeMarkdown,
+} from "./image-parser";
+import { t } from "./i18n";
+
+// 可以内联的图片扩展名及其 MIME 类型
+const IMAGE_MIME_TYPES: Record<string, string> = {
+	png: "image/png",
+	jpg: "image/jpeg",
+	jpeg: "image/jpeg",
+	gif: "image/gif",
+	webp: "image/webp",
+	svg: "image/svg+xml",
+	bmp: "image/bmp",
+	avif: "image/avif",
+	ico: "image/x-icon",
+};
+
+// 笔记中引用本地附件的一处图片链接
+export interface LocalImageLink {
+	from: number;
+	to: number;
+	fullText: string;
+	// 图片描述（已去除转义）
+	alt: string;
+	// Obsidian 尺寸后缀，如 300 或 300x200
+	size: string | null;
+	linkpath: string;
+}
+
+// ![[image.png]] / ![[image.png|alt]]
+const WIKILINK_EMBED_PATTERN =
+	/!\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|([^\]]*))?\]\]/g;
+// ![alt](path/to/image.png "title")
+const MARKDOWN_IMAGE_PATTERN =
+	/!\[([^\]]*)\]\(<?([^)>"]+?)>?(?:\s+"[^"]*")?\)/g;
+
+// 查找文本中 from 到 to 之间所有指向本地图片的链接（不包含 data URL 和网络图片）；
+// 代码块和行内代码中的链接只是示例，不会被查找
+export function findLocalImageLinks(
+	text: string,
+	from = 0,
+	to = text.length,
+): LocalImageLink[] {
+	const links: LocalImageLink[] = [];
+
+	for (const match of text.matchAll(WIKILINK_EMBED_PATTERN)) {
+		const linkpath = (match[1] ?? "").trim();
+		// |300 只有尺寸，|alt|300x200 同时有描述和尺寸
+		const { alt, size } = splitSizeSuffix(`|${match[2] ?? ""}`);
+		links.push(toLink(match, linkpath, alt.substring(1).trim(), size));
+	}
+
+	for (const match of text.matchAll(MARKDOWN_IMAGE_PATTERN)) {
+		const rawPath = (match[2] ?? "").trim();
+		if (/^(data:|https?:|file:)/i.test(rawPath)) continue;
+		const { alt, size } = splitSizeSuffix(match[1] ?? "");
+		links.push(
+			toLink(match, safeDecodeUri(rawPath), unescapeMarkdown(alt), size),
+		);
+	}
+
+	const codeRanges = findCodeRanges(text);
+	return links
+		.filter(
+			(link) =>
+				link.from >= from &&
+				link.to <= to &&
+				!codeRanges.some(
+					([start, end]) => start <= link.from && link.from < end,
+				) &&
+				getExtension(link.linkpath) in IMAGE_MIME_TYPES,
+		)
+		.sort((a, b) => a.from - b.from);
+}
+
+function toLink(
+	match: RegExpMatchArray,
+	linkpath: string,
+	alt: string,
+	size: string | null,
+): LocalImageLink {
+	const from = match.index ?? 0;
+	return {
+		from,
+		to: from + match[0].length,
+		fullText: match[0],
+		alt,
+		size,
+		linkpath,
+	};
+}
+
+function safeDecodeUri(path: string): string {
+	try {
+		return decodeURI(path);
+	} catch {
+		return path;
+	}
+}
+
+function getExtension(path: string): string {
+	return path.substring(path.lastIndexOf(".") + 1).toLowerCase();
+}
+
+export function isImageFile(file: TFile): boolean {
+	return file.extension.toLowerCase() in IMAGE_MIME_TYPES;
+}
+
+// 读取附件并编码为 data URL
+export async function readFileAsDataUrl(app: App, file: TFile): Promise<string> {
+	const mime = IMAGE_MIME_TYPES[file.extension.toLowerCase()] ?? "image/png";
+	const buffer = await app.vault.readBinary(file);
+	return `data:${mime};base64,${arrayBufferToBase64(buffer)}`;
+}
+
+// 判断附件是否仍被其他笔记、canvas（或当前笔记剩余的内容）引用
+async function isStillReferenced(
+	app: App,
+	attachment: TFile,
+	sourceFile: TFile,
+	remainingText: string,
+): Promise<boolean> {
+	const { resolvedLinks } = app.metadataCache;
+	for (const sourcePath in resolvedLinks) {
+		if (sourcePath === sourceFile.path) continue;
+		if (resolvedLinks[sourcePath]?.[attachment.path]) return true;
+	}
+
+	// resolvedLinks 中当前笔记的记录尚未更新，直接扫描替换后的文本
+	if (referencesAttachment(app, remainingText, sourceFile, attachment)) {
+		return true;
+	}
+
+	// canvas 的文件卡片和文本卡片中的链接不在 resolvedLinks 中
+	for (const canvas of app.vault.getFiles().filter(isCanvasFile)) {
+		const data = parseCanvas(await app.vault.cachedRead(canvas));
+		// 无法解析时无法确认，按仍被引用处理
+		if (!data) return true;
+		for (const node of data.nodes) {
+			if (node.type === "file" && node.file === attachment.path) {
+				return true;
+			}
+			if (
+				node.type === "text" &&
+				typeof node.text === "string" &&
+				referencesAttachment(app, node.text, canvas, attachment)
+			) {
+				return true;
+			}
+		}
+	}
+	return false;
+}
+
+// 文本中是否有指向附件的图片链接
+function referencesAttachment(
+	app: App,
+	text: string,
+	sourceFile: TFile,
+	attachment: TFile,
+): boolean {
+	return findLocalImageLinks(text).some(
+		(link) =>
+			app.metadataCache.getFirstLinkpathDest(
+				link.linkpath,
+				sourceFile.path,
+			) === attachment,
+	);
+}
+
+// 将当前笔记（或选区）中的本地图片转换为内联 Base64
+export async function inlineLocalImages(
+	app: App,
+	editor: Editor,
+	file: TFile,
+	deleteUnreferenced: boolean,
+) {
+	// 有选区时只处理选区内容
+	// 代码块需要根据全文判断，因此在全文中查找再按选区过滤
+	const text = editor.getValue();
+	const hasSelection = editor.somethingSelected();
+	const rangeFrom = hasSelection
+		? editor.posToOffset(editor.getCursor("from"))
+		: 0;
+	const rangeTo = hasSelection
+		? editor.posToOffset(editor.getCursor("to"))
+		: text.length;
+
+	const links = findLocalImageLinks(text, rangeFrom, rangeTo);
+	if (links.length === 0) {
+		new Notice(t("inline.noLinks"));
+		return;
+	}
+
+	const changes: EditorChange[] = [];
+	const originalTexts: string[] = [];
+	const inlinedImages: { alt: string; dataUrl: string }[] = [];
+	const inlinedFiles = new Set<TFile>();
+	let failed = 0;
+
+	for (const link of links) {
+		const attachment = app.metadataCache.getFirstLinkpathDest(
+			link.linkpath,
+			file.path,
+		);
+		if (!attachment) {
+			failed++;
+			continue;
+		}
+
+		try {
+			const dataUrl = await readFileAsDataUrl(app, attachment);
+			changes.push({
+				from: editor.offsetToPos(link.from),
+				to: editor.offsetToPos(link.to),
+				text: formatMarkdownImage(link.alt, dataUrl, link.size),
+			});
+			originalTexts.push(link.fullText);
+			inlinedImages.push({ alt: link.alt, dataUrl });
+			inlinedFiles.add(attachment);
+		} catch (error) {
+			console.error("读取附件失败:", error);
+			failed++;
+		}
+	}
+
+	// 读取文件期间笔记可能被修改，原文本不再匹配时放弃整个转换
+	const modified = changes.some(
+		(change, i) =>
+			editor.getRange(change.from, change.to ?? change.from) !==
+			originalTexts[i],
+	);
+	if (modified) {
+		new Notice(t("inline.noteChanged"));
+		return;
+	}
+
+	if (changes.length > 0) {
+		editor.transaction({ changes });
+	}
+	for (const { alt, dataUrl } of inlinedImages) {
+		triggerImageEvent(app, "added", { file, alt, dataUrl });
+	}
+
+	let deleted = 0;
+	if (deleteUnreferenced) {
+		const remainingText = editor.getValue();
+		for (const attachment of inlinedFiles) {
+			if (
+				!(await isStillReferenced(app, attachment, file, remainingText))
+			) {
+				await app.fileManager.trashFile(attachment);
+				deleted++;
+			}
+		}
+	}
+
+	let message = t("inline.done", { count: changes.length });
+	if (deleted > 0) message += t("inline.deleted", { count: deleted });
+	if (failed > 0) message += t("inline.failed", { count: failed });
+	new Notice(message);
+}
+
+// 在仓库中的图片文件里模糊搜索
+export class ImageFileSuggestModal extends FuzzySuggestModal<TFile> {
+	constructor(
+		app: App,
+		private onChoose: (file: TFile) => void,
+	) {
+		super(app);
+		this.setPlaceholder(t("suggest.image"));
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault.getFiles().filter(isImageFile);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile): void {
+		this.onChoose(file);
+	}
+}
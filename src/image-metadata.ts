@@ -0,0 +1,675 @@
+import {
+	bytesToDataUrl,
+	decodeDataUrlBytes,
+	detectMimeType,
+	parseDataUrl,
+} from "./data-url";
+
+// 图片的颜色类型
+export type ColorType =
+	| "grayscale"
+	| "grayscale-alpha"
+	| "indexed"
+	| "rgb"
+	| "rgba"
+	| "cmyk";
+
+// 从 EXIF 中读取的字段，缺少的字段为 null
+export interface ExifData {
+	make: string | null;
+	model: string | null;
+	software: string | null;
+	// 拍摄时间和修改时间，格式为 YYYY-MM-DD HH:MM:SS
+	dateTimeOriginal: string | null;
+	dateTime: string | null;
+	orientation: number | null;
+	gps: { latitude: number; longitude: number } | null;
+}
+
+// 从图片数据中解析出的信息，无法识别的字段为 null
+export interface ImageMetadata {
+	// 根据文件头识别的 MIME 类型，无法识别时使用 data URL 中声明的类型
+	mimeType: string;
+	// 解码后的真实字节数
+	byteSize: number;
+	width: number | null;
+	height: number | null;
+	colorType: ColorType | null;
+	// 每个通道的位数（调色板图片为每个像素的位数）
+	bitDepth: number | null;
+	// 帧数，静态图片为 1
+	frames: number | null;
+	exif: ExifData | null;
+	// 是否包含可以移除的元数据（EXIF、XMP、注释等）
+	hasStrippableMetadata: boolean;
+}
+
+// 移除元数据时对原数据的一处修改
+interface ByteEdit {
+	from: number;
+	to: number;
+	insert?: Uint8Array;
+}
+
+interface ParsedImageBytes {
+	metadata: ImageMetadata;
+	edits: ByteEdit[];
+}
+
+// PNG 中记录文字、时间和 EXIF 的块；颜色配置（iCCP、sRGB 等）会影响显示，保留
+const PNG_METADATA_CHUNKS = ["eXIf", "tEXt", "zTXt", "iTXt", "tIME"];
+const PNG_COLOR_TYPES: Record<number, ColorType> = {
+	0: "grayscale",
+	2: "rgb",
+	3: "indexed",
+	4: "grayscale-alpha",
+	6: "rgba",
+};
+
+// JPEG 中的 APP1（EXIF / XMP）、APP13（IPTC）和注释段；APP2（ICC）和 APP14 保留
+const JPEG_METADATA_MARKERS = [0xe1, 0xed, 0xfe];
+const JPEG_COLOR_TYPES: Record<number, ColorType> = {
+	1: "grayscale",
+	3: "rgb",
+	4: "cmyk",
+};
+
+// VP8X 头中表示含有 EXIF 和 XMP 块的标志位
+const WEBP_EXIF_FLAG = 0x08;
+const WEBP_XMP_FLAG = 0x04;
+
+// EXIF 标签
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_ORIENTATION = 0x0112;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// TIFF 各数据类型的字节数
+const TIFF_TYPE_SIZES: Record<number, number> = {
+	1: 1,
+	2: 1,
+	3: 2,
+	4: 4,
+	5: 8,
+	7: 1,
+	9: 4,
+	10: 8,
+};
+
+// 解析 data URL 中图片的尺寸、颜色、帧数和 EXIF
+export function readImageMetadata(dataUrl: string): ImageMetadata | null {
+	const info = parseDataUrl(dataUrl);
+	const bytes = decodeDataUrlBytes(dataUrl);
+	if (!info || !bytes) return null;
+	return parseImageBytes(bytes, info.mimeType).metadata;
+}
+
+// 图片中是否有可以移除的 EXIF、XMP 或注释
+export function hasStrippableMetadata(dataUrl: string): boolean {
+	const info = parseDataUrl(dataUrl);
+	const bytes = decodeDataUrlBytes(dataUrl);
+	if (!info || !bytes) return false;
+	return parseImageBytes(bytes, info.mimeType).edits.length > 0;
+}
+
+// 移除图片中的 EXIF（含 GPS）、XMP 和注释，不重新编码图片；
+// 没有可移除的内容或格式不支持时返回 null
+export function stripImageMetadata(dataUrl: string): string | null {
+	const info = parseDataUrl(dataUrl);
+	const bytes = decodeDataUrlBytes(dataUrl);
+	if (!info || !bytes) return null;
+
+	const { metadata, edits } = parseImageBytes(bytes, info.mimeType);
+	if (edits.length === 0) return null;
+
+	const stripped = applyEdits(bytes, edits);
+	if (metadata.mimeType === "image/webp") updateWebpHeader(stripped);
+	return bytesToDataUrl(stripped, info.mimeType);
+}
+
+function parseImageBytes(
+	bytes: Uint8Array,
+	declaredMimeType: string,
+): ParsedImageBytes {
+	const mimeType = detectMimeType(bytes) ?? declaredMimeType;
+	const metadata: ImageMetadata = {
+		mimeType,
+		byteSize: bytes.length,
+		width: null,
+		height: null,
+		colorType: null,
+		bitDepth: null,
+		frames: null,
+		exif: null,
+		hasStrippableMetadata: false,
+	};
+	const edits: ByteEdit[] = [];
+
+	try {
+		const view = new DataView(
+			bytes.buffer,
+			bytes.byteOffset,
+			bytes.byteLength,
+		);
+		switch (mimeType) {
+			case "image/png":
+				parsePng(bytes, view, metadata, edits);
+				break;
+			case "image/jpeg":
+				parseJpeg(bytes, view, metadata, edits);
+				break;
+			case "image/gif":
+				parseGif(bytes, view, metadata, edits);
+				break;
+			case "image/webp":
+				parseWebp(bytes, view, metadata, edits);
+				break;
+			case "image/bmp":
+				parseBmp(view, metadata);
+				break;
+			case "image/svg+xml":
+				parseSvg(bytes, metadata);
+				break;
+		}
+	} catch {
+		// 数据被截断时保留已经读到的信息
+	}
+
+	metadata.hasStrippableMetadata = edits.length > 0;
+	return { metadata, edits };
+}
+
+function parsePng(
+	bytes: Uint8Array,
+	view: DataView,
+	metadata: ImageMetadata,
+	edits: ByteEdit[],
+) {
+	metadata.frames = 1;
+	let offset = 8;
+	while (offset + 12 <= bytes.length) {
+		const length = view.getUint32(offset);
+		const type = readAscii(bytes, offset + 4, offset + 8);
+		const data = offset + 8;
+		const end = data + length + 4;
+
+		if (type === "IHDR") {
+			metadata.width = view.getUint32(data);
+			metadata.height = view.getUint32(data + 4);
+			metadata.bitDepth = view.getUint8(data + 8);
+			metadata.colorType = PNG_COLOR_TYPES[view.getUint8(data + 9)] ?? null;
+		} else if (type === "acTL") {
+			// APNG 的动画控制块
+			metadata.frames = view.getUint32(data);
+		} else if (type === "eXIf") {
+			metadata.exif = parseExif(bytes.subarray(data, data + length));
+		}
+		if (PNG_METADATA_CHUNKS.includes(type)) {
+			edits.push({ from: offset, to: end });
+		}
+
+		if (type === "IEND") break;
+		offset = end;
+	}
+}
+
+function parseJpeg(
+	bytes: Uint8Array,
+	view: DataView,
+	metadata: ImageMetadata,
+	edits: ByteEdit[],
+) {
+	metadata.frames = 1;
+	let offset = 2;
+	while (offset + 4 <= bytes.length) {
+		if (view.getUint8(offset) !== 0xff) break;
+		const marker = view.getUint8(offset + 1);
+		// 填充字节和没有长度的标记
+		if (marker === 0xff) {
+			offset++;
+			continue;
+		}
+		if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+			offset += 2;
+			continue;
+		}
+		// 图像数据开始，之后不再有元数据
+		if (marker === 0xd9 || marker === 0xda) break;
+
+		const length = view.getUint16(offset + 2);
+		const data = offset + 4;
+		const end = offset + 2 + length;
+
+		if (isJpegFrameMarker(marker)) {
+			metadata.bitDepth = view.getUint8(data);
+			metadata.height = view.getUint16(data + 1);
+			metadata.width = view.getUint16(data + 3);
+			metadata.colorType =
+				JPEG_COLOR_TYPES[view.getUint8(data + 5)] ?? null;
+		}
+
+		if (JPEG_METADATA_MARKERS.includes(marker)) {
+			const isExif =
+				marker === 0xe1 && readAscii(bytes, data, data + 4) === "Exif";
+			const exif = isExif ? parseExif(bytes.subarray(data + 6, end)) : null;
+			if (exif) metadata.exif = exif;
+
+			// 只含方向的 EXIF 是之前移除元数据时保留下来的，不再处理
+			if (!exif || !isOrientationOnly(exif)) {
+				// 浏览器按 EXIF 方向显示 JPEG，直接移除会使图片转向，只保留方向
+				const orientation = exif?.orientation ?? 1;
+				edits.push({
+					from: offset,
+					to: end,
+					insert:
+						orientation !== 1
+							? createOrientationExif(orientation)
+							: undefined,
+				});
+			}
+		}
+
+		offset = end;
+	}
+}
+
+// SOF0-SOF15，不包括 DHT（C4）、JPG（C8）和 DAC（CC）
+function isJpegFrameMarker(marker: number): boolean {
+	return (
+		marker >= 0xc0 &&
+		marker <= 0xcf &&
+		marker !== 0xc4 &&
+		marker !== 0xc8 &&
+		marker !== 0xcc
+	);
+}
+
+function parseGif(
+	bytes: Uint8Array,
+	view: DataView,
+	metadata: ImageMetadata,
+	edits: ByteEdit[],
+) {
+	metadata.width = view.getUint16(6, true);
+	metadata.height = view.getUint16(8, true);
+	metadata.colorType = "indexed";
+
+	const packed = view.getUint8(10);
+	metadata.bitDepth = (packed & 0x07) + 1;
+	let offset = 13;
+	if (packed & 0x80) offset += 3 * (1 << ((packed & 0x07) + 1));
+
+	let frames = 0;
+	while (offset < bytes.length) {
+		const block = view.getUint8(offset);
+		if (block === 0x2c) {
+			// 图像描述符，之后是可选的局部颜色表和图像数据
+			frames++;
+			const imagePacked = view.getUint8(offset + 9);
+			offset += 10;
+			if (imagePacked & 0x80) {
+				offset += 3 * (1 << ((imagePacked & 0x07) + 1));
+			}
+			offset = skipGifSubBlocks(view, offset + 1);
+		} else if (block === 0x21) {
+			const label = view.getUint8(offset + 1);
+			const end = skipGifSubBlocks(view, offset + 2);
+			// 注释扩展和 XMP 应用扩展
+			const isXmp =
+				label === 0xff &&
+				readAscii(bytes, offset + 3, offset + 11) === "XMP Data";
+			if (label === 0xfe || isXmp) {
+				edits.push({ from: offset, to: end });
+			}
+			offset = end;
+		} else {
+			break;
+		}
+	}
+	metadata.frames = frames;
+}
+
+function skipGifSubBlocks(view: DataView, offset: number): number {
+	while (offset < view.byteLength) {
+		const size = view.getUint8(offset);
+		if (size === 0) return offset + 1;
+		offset += size + 1;
+	}
+	return offset;
+}
+
+function parseWebp(
+	bytes: Uint8Array,
+	view: DataView,
+	metadata: ImageMetadata,
+	edits: ByteEdit[],
+) {
+	let frames = 0;
+	let hasAlpha = false;
+	let offset = 12;
+	while (offset + 8 <= bytes.length) {
+		const type = readAscii(bytes, offset, offset + 4);
+		const size = view.getUint32(offset + 4, true);
+		const data = offset + 8;
+		// 块的长度为奇数时补一个字节
+		const end = data + size + (size % 2);
+
+		switch (type) {
+			case "VP8X": {
+				const flags = view.getUint8(data);
+				hasAlpha = (flags & 0x10) !== 0;
+				metadata.width = readUint24(view, data + 4) + 1;
+				metadata.height = readUint24(view, data + 7) + 1;
+				break;
+			}
+			case "VP8 ":
+				if (metadata.width === null) {
+					metadata.width = view.getUint16(data + 6, true) & 0x3fff;
+					metadata.height = view.getUint16(data + 8, true) & 0x3fff;
+				}
+				break;
+			case "VP8L": {
+				const bits = view.getUint32(data + 1, true);
+				if (metadata.width === null) {
+					metadata.width = (bits & 0x3fff) + 1;
+					metadata.height = ((bits >>> 14) & 0x3fff) + 1;
+				}
+				if ((bits >>> 28) & 1) hasAlpha = true;
+				break;
+			}
+			case "ALPH":
+				hasAlpha = true;
+				break;
+			case "ANMF":
+				frames++;
+				break;
+			case "EXIF": {
+				// 部分编码器会保留 JPEG 中的 Exif 前缀
+				const start =
+					readAscii(bytes, data, data + 4) === "Exif" ? data + 6 : data;
+				metadata.exif = parseExif(bytes.subarray(start, data + size));
+				edits.push({ from: offset, to: end });
+				break;
+			}
+			case "XMP ":
+				edits.push({ from: offset, to: end });
+				break;
+		}
+		offset = end;
+	}
+
+	metadata.colorType = hasAlpha ? "rgba" : "rgb";
+	metadata.bitDepth = 8;
+	metadata.frames = Math.max(frames, 1);
+}
+
+// 移除块之后更新 RIFF 的总长度和 VP8X 中的标志位
+function updateWebpHeader(bytes: Uint8Array) {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	view.setUint32(4, bytes.length - 8, true);
+	if (readAscii(bytes, 12, 16) === "VP8X") {
+		const flags = view.getUint8(20);
+		view.setUint8(20, flags & ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG));
+	}
+}
+
+function parseBmp(view: DataView, metadata: ImageMetadata) {
+	metadata.width = Math.abs(view.getInt32(18, true));
+	// 高度为负数表示自上而下存储
+	metadata.height = Math.abs(view.getInt32(22, true));
+	metadata.frames = 1;
+
+	const bitsPerPixel = view.getUint16(28, true);
+	if (bitsPerPixel <= 8) {
+		metadata.colorType = "indexed";
+		metadata.bitDepth = bitsPerPixel;
+	} else {
+		metadata.colorType = bitsPerPixel === 32 ? "rgba" : "rgb";
+		metadata.bitDepth = bitsPerPixel === 16 ? 5 : 8;
+	}
+}
+
+// SVG 的尺寸取根元素的 width / height，没有时使用 viewBox
+function parseSvg(bytes: Uint8Array, metadata: ImageMetadata) {
+	metadata.frames = 1;
+	const text = new TextDecoder().decode(bytes);
+	const tag = /<svg\b[^>]*>/i.exec(text)?.[0];
+	if (!tag) return;
+
+	const attribute = (name: string) =>
+		new RegExp(`\\s${name}\\s*=\\s*["']([^"']*)["']`, "i").exec(tag)?.[1];
+	const width = parseFloat(attribute("width") ?? "");
+	const height = parseFloat(attribute("height") ?? "");
+	if (width > 0 && height > 0) {
+		metadata.width = Math.round(width);
+		metadata.height = Math.round(height);
+		return;
+	}
+
+	const viewBox = (attribute("viewBox") ?? "")
+		.split(/[\s,]+/)
+		.map((value) => parseFloat(value));
+	const [, , boxWidth = 0, boxHeight = 0] = viewBox;
+	if (boxWidth > 0 && boxHeight > 0) {
+		metadata.width = Math.round(boxWidth);
+		metadata.height = Math.round(boxHeight);
+	}
+}
+
+// IFD 中的一项；offset 为值所在的位置（4 字节以内的值直接存放在项中）
+interface IfdEntry {
+	type: number;
+	count: number;
+	offset: number;
+}
+
+// 解析 TIFF 格式的 EXIF 数据
+function parseExif(tiff: Uint8Array): ExifData | null {
+	if (tiff.length < 8) return null;
+	const byteOrder = readAscii(tiff, 0, 2);
+	if (byteOrder !== "II" && byteOrder !== "MM") return null;
+
+	const little = byteOrder === "II";
+	const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+	if (view.getUint16(2, little) !== 42) return null;
+
+	try {
+		const ifd0 = readIfd(view, little, view.getUint32(4, little));
+		const subIfd = (tag: number) => {
+			const entry = ifd0.get(tag);
+			return entry
+				? readIfd(view, little, readNumber(view, little, entry) ?? 0)
+				: new Map<number, IfdEntry>();
+		};
+		const exifIfd = subIfd(TAG_EXIF_IFD);
+		const gpsIfd = subIfd(TAG_GPS_IFD);
+
+		const text = (ifd: Map<number, IfdEntry>, tag: number) => {
+			const entry = ifd.get(tag);
+			return entry ? readText(tiff, entry) : null;
+		};
+		const orientation = ifd0.get(TAG_ORIENTATION);
+
+		return {
+			make: text(ifd0, TAG_MAKE),
+			model: text(ifd0, TAG_MODEL),
+			software: text(ifd0, TAG_SOFTWARE),
+			dateTimeOriginal: formatExifDate(
+				text(exifIfd, TAG_DATE_TIME_ORIGINAL),
+			),
+			dateTime: formatExifDate(text(ifd0, TAG_DATE_TIME)),
+			orientation: orientation
+				? readNumber(view, little, orientation)
+				: null,
+			gps: readGps(tiff, view, little, gpsIfd),
+		};
+	} catch {
+		return null;
+	}
+}
+
+function readIfd(
+	view: DataView,
+	little: boolean,
+	offset: number,
+): Map<number, IfdEntry> {
+	const entries = new Map<number, IfdEntry>();
+	if (offset <= 0 || offset + 2 > view.byteLength) return entries;
+
+	const count = view.getUint16(offset, little);
+	for (let i = 0; i < count; i++) {
+		const entry = offset + 2 + i * 12;
+		if (entry + 12 > view.byteLength) break;
+
+		const type = view.getUint16(entry + 2, little);
+		const valueCount = view.getUint32(entry + 4, little);
+		const size = (TIFF_TYPE_SIZES[type] ?? 1) * valueCount;
+		entries.set(view.getUint16(entry, little), {
+			type,
+			count: valueCount,
+			offset: size <= 4 ? entry + 8 : view.getUint32(entry + 8, little),
+		});
+	}
+	return entries;
+}
+
+function readNumber(
+	view: DataView,
+	little: boolean,
+	entry: IfdEntry,
+	index = 0,
+): number | null {
+	switch (entry.type) {
+		case 1:
+			return view.getUint8(entry.offset + index);
+		case 3:
+			return view.getUint16(entry.offset + index * 2, little);
+		case 4:
+			return view.getUint32(entry.offset + index * 4, little);
+		case 5: {
+			const position = entry.offset + index * 8;
+			const denominator = view.getUint32(position + 4, little);
+			return denominator
+				? view.getUint32(position, little) / denominator
+				: null;
+		}
+		default:
+			return null;
+	}
+}
+
+function readText(tiff: Uint8Array, entry: IfdEntry): string | null {
+	if (entry.type !== 2) return null;
+	const text = readAscii(tiff, entry.offset, entry.offset + entry.count)
+		.replace(/\0+$/, "")
+		.trim();
+	return text || null;
+}
+
+// 度、分、秒转换为十进制度数，南纬和西经为负数
+function readGps(
+	tiff: Uint8Array,
+	view: DataView,
+	little: boolean,
+	gpsIfd: Map<number, IfdEntry>,
+): ExifData["gps"] {
+	const toDegrees = (tag: number, refTag: number, negative: string) => {
+		const entry = gpsIfd.get(tag);
+		if (!entry || entry.count < 3) return null;
+
+		const [degrees, minutes, seconds] = [0, 1, 2].map((index) =>
+			readNumber(view, little, entry, index),
+		);
+		if (degrees == null || minutes == null || seconds == null) return null;
+
+		const value = degrees + minutes / 60 + seconds / 3600;
+		const refEntry = gpsIfd.get(refTag);
+		const ref = refEntry ? readText(tiff, refEntry) : null;
+		return ref?.toUpperCase() === negative ? -value : value;
+	};
+
+	const latitude = toDegrees(TAG_GPS_LATITUDE, TAG_GPS_LATITUDE_REF, "S");
+	const longitude = toDegrees(TAG_GPS_LONGITUDE, TAG_GPS_LONGITUDE_REF, "W");
+	return latitude !== null && longitude !== null
+		? { latitude, longitude }
+		: null;
+}
+
+// EXIF 的时间格式为 YYYY:MM:DD HH:MM:SS
+function formatExifDate(value: string | null): string | null {
+	return value?.replace(/^(\d{4}):(\d{2}):(\d{2})/, "$1-$2-$3") ?? null;
+}
+
+function isOrientationOnly(exif: ExifData): boolean {
+	return (
+		exif.orientation !== null &&
+		!exif.make &&
+		!exif.model &&
+		!exif.software &&
+		!exif.dateTimeOriginal &&
+		!exif.dateTime &&
+		!exif.gps
+	);
+}
+
+// 只包含方向标签的 JPEG APP1 段
+function createOrientationExif(orientation: number): Uint8Array {
+	const segment = new Uint8Array(36);
+	const view = new DataView(segment.buffer);
+	view.setUint16(0, 0xffe1);
+	view.setUint16(2, segment.length - 2);
+	segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4);
+	// TIFF 头（大端）、IFD0 中的一项和下一个 IFD 的偏移
+	segment.set([0x4d, 0x4d, 0x00, 0x2a], 10);
+	view.setUint32(14, 8);
+	view.setUint16(18, 1);
+	view.setUint16(20, TAG_ORIENTATION);
+	view.setUint16(22, 3);
+	view.setUint32(24, 1);
+	view.setUint16(28, orientation);
+	view.setUint32(32, 0);
+	return segment;
+}
+
+function applyEdits(bytes: Uint8Array, edits: ByteEdit[]): Uint8Array {
+	const parts: Uint8Array[] = [];
+	let position = 0;
+	for (const { from, to, insert } of edits) {
+		parts.push(bytes.subarray(position, from));
+		if (insert) parts.push(insert);
+		position = to;
+	}
+	parts.push(bytes.subarray(position));
+
+	const result = new Uint8Array(
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+	let offset = 0;
+	for (const part of parts) {
+		result.set(part, offset);
+		offset += part.length;
+	}
+	return result;
+}
+
+function readAscii(bytes: Uint8Array, start: number, end: number): string {
+	return String.fromCharCode(
+		...bytes.subarray(start, Math.min(end, bytes.length)),
+	);
+}
+
+function readUint24(view: DataView, offset: number): number {
+	return (
+		view.getUint8(offset) |
+		(view.getUint8(offset + 1) << 8) |
+		(view.getUint8(offset + 2) << 16)
+	);
+}
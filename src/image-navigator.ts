@@ -0,0 +1,208 @@
+import { App, Editor, Notice, SuggestModal, TFile } from "obsidian";
+import type { Base64ImageSettings } from "./settings";
+import { triggerImageEvent } from "./api";
+import { saveImageAsAttachment } from "./image-extractor";
+import type { ParsedImage } from "./image-parser";
+import {
+	formatBytes,
+	getDataUrlFormat,
+	getDecodedByteSize,
+} from "./image-scanner";
+import { t } from "./i18n";
+
+// 返回 [from, to] 所在段落中的图片，由编辑器的解析缓存提供，
+// 命令只解析需要的段落，不必每次解析整篇笔记
+export type ImageLookup = (from: number, to: number) => ParsedImage[];
+
+// 跳转时每次向前或向后查找的范围
+const SEARCH_CHUNK = 64 * 1024;
+
+// 光标所在（或紧挨着）的图片
+export function getImageAtCursor(
+	editor: Editor,
+	lookup: ImageLookup,
+): ParsedImage | null {
+	const offset = editor.posToOffset(editor.getCursor());
+	return (
+		lookup(offset, offset).find(
+			(image) => image.from <= offset && offset <= image.to,
+		) ?? null
+	);
+}
+
+// 跳到光标后（direction 为 1）或光标前（-1）的下一张图片，到头后从另一端继续
+export function goToAdjacentImage(
+	editor: Editor,
+	lookup: ImageLookup,
+	direction: 1 | -1,
+) {
+	const offset = editor.posToOffset(editor.getCursor());
+	const length = getDocLength(editor);
+	const target =
+		direction === 1
+			? (findImage(lookup, offset, length, 1, (i) => i.from > offset) ??
+				findImage(lookup, 0, offset, 1, () => true))
+			: (findImage(lookup, 0, offset, -1, (i) => i.to < offset) ??
+				findImage(lookup, offset, length, -1, () => true));
+	if (target) {
+		selectImage(editor, target);
+	} else {
+		new Notice(t("common.noImagesFound"));
+	}
+}
+
+// 从 [from, to] 的一端分段查找第一张满足条件的图片，找到后不再解析后面的段落
+function findImage(
+	lookup: ImageLookup,
+	from: number,
+	to: number,
+	direction: 1 | -1,
+	accept: (image: ParsedImage) => boolean,
+): ParsedImage | null {
+	if (direction === 1) {
+		for (let start = from; start <= to; start += SEARCH_CHUNK + 1) {
+			const images = lookup(start, Math.min(to, start + SEARCH_CHUNK));
+			const image = images.find(accept);
+			if (image) return image;
+		}
+	} else {
+		for (let end = to; end >= from; end -= SEARCH_CHUNK + 1) {
+			const images = lookup(Math.max(from, end - SEARCH_CHUNK), end);
+			const image = [...images].reverse().find(accept);
+			if (image) return image;
+		}
+	}
+	return null;
+}
+
+// 文档长度；getValue() 会拼接整篇文档，这里从最后一行计算
+function getDocLength(editor: Editor): number {
+	const line = editor.lastLine();
+	return editor.posToOffset({ line, ch: editor.getLine(line).length });
+}
+
+// 将光标移到图片开头并滚动到可见位置
+export function selectImage(editor: Editor, image: ParsedImage) {
+	const from = editor.offsetToPos(image.from);
+	const to = editor.offsetToPos(image.to);
+	editor.setCursor(from);
+	editor.scrollIntoView({ from, to }, true);
+	editor.focus();
+}
+
+// 删除图片；编辑器中的内容已变化时不做修改
+export function deleteImageInEditor(
+	app: App,
+	editor: Editor,
+	file: TFile | null,
+	image: ParsedImage,
+) {
+	if (!replaceImageInEditor(editor, image, "")) return;
+	triggerImageEvent(app, "deleted", {
+		file,
+		alt: image.alt,
+		dataUrl: image.dataUrl,
+	});
+	new Notice(t("notice.imageDeleted"));
+}
+
+// 将图片保存为附件并替换为链接
+export async function extractImageInEditor(
+	app: App,
+	settings: Base64ImageSettings,
+	editor: Editor,
+	file: TFile,
+	image: ParsedImage,
+) {
+	try {
+		const { path, markdown } = await saveImageAsAttachment(
+			app,
+			settings,
+			image,
+			file,
+		);
+		// 保存附件期间图片被修改，删除刚创建的附件
+		if (!replaceImageInEditor(editor, image, markdown)) {
+			const attachment = app.vault.getFileByPath(path);
+			if (attachment) await app.fileManager.trashFile(attachment);
+			return;
+		}
+		triggerImageEvent(app, "extracted", {
+			file,
+			alt: image.alt,
+			dataUrl: image.dataUrl,
+			path,
+		});
+		new Notice(t("notice.savedToFile", { path }));
+	} catch (error) {
+		console.error("转换失败:", error);
+		new Notice(
+			t("notice.convertToFileFailed", {
+				message: error instanceof Error ? error.message : String(error),
+			}),
+		);
+	}
+}
+
+// 图片仍在原来的位置时替换它，否则提示并返回 false
+function replaceImageInEditor(
+	editor: Editor,
+	image: ParsedImage,
+	text: string,
+): boolean {
+	const from = editor.offsetToPos(image.from);
+	const to = editor.offsetToPos(image.to);
+	if (editor.getRange(from, to) !== image.fullText) {
+		new Notice(t("notice.imageMissing"));
+		return false;
+	}
+	editor.replaceRange(text, from, to);
+	return true;
+}
+
+// 列出当前笔记中的图片，选择后跳到图片位置；
+// 图片列表来自编辑器的解析缓存，大小和行号只为显示出来的结果计算
+export class ImageNavigatorModal extends SuggestModal<ParsedImage> {
+	private images: ParsedImage[];
+
+	constructor(
+		app: App,
+		private editor: Editor,
+		lookup: ImageLookup,
+	) {
+		super(app);
+		this.images = lookup(0, getDocLength(editor));
+		this.setPlaceholder(t("suggest.noteImage"));
+		this.emptyStateText = t("common.noImagesFound");
+	}
+
+	getSuggestions(query: string): ParsedImage[] {
+		const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+		return this.images.filter((image) => {
+			const format = getDataUrlFormat(image.dataUrl);
+			const text = `${image.alt} ${format}`.toLowerCase();
+			return terms.every((term) => text.includes(term));
+		});
+	}
+
+	renderSuggestion(image: ParsedImage, el: HTMLElement) {
+		el.createDiv({
+			cls: "suggestion-title",
+			text: image.alt || t("common.noAlt"),
+		});
+		el.createDiv({
+			cls: "suggestion-note",
+			text: [
+				getDataUrlFormat(image.dataUrl).toUpperCase(),
+				formatBytes(getDecodedByteSize(image.dataUrl)),
+				t("suggest.line", {
+					line: this.editor.offsetToPos(image.from).line + 1,
+				}),
+			].join(" · "),
+		});
+	}
+
+	onChooseSuggestion(image: ParsedImage) {
+		selectImage(this.editor, image);
+	}
+}
@@ -0,0 +1,564 @@
+// 可以携带 data URL 图片的语法
+export type ImageSyntax = "markdown" | "html" | "reference";
+
+// 解析出的一处 data URL 图片
+export interface ParsedImage {
+	syntax: ImageSyntax;
+	from: number;
+	to: number;
+	fullText: string;
+	// 图片描述（已去除 Obsidian 尺寸后缀和转义）
+	alt: string;
+	dataUrl: string;
+	// 描述和 data URL 在 fullText 中的区间，改写时只替换这两部分以保留原有语法
+	altRange: [number, number] | null;
+	dataRange: [number, number];
+	// Obsidian 尺寸后缀，如 ![alt|300] 中的 300
+	size: string | null;
+	title: string | null;
+	// 引用定义的标识，如 [id]: data:... 中的 id
+	label: string | null;
+}
+
+// 改写图片时可修改的部分
+export interface ImageChanges {
+	alt?: string;
+	dataUrl?: string;
+}
+
+const DATA_IMAGE_PREFIX = /^data:image\//i;
+// 围栏代码块的标记行，从指定位置开始匹配
+const FENCE_PATTERN = / {0,3}(`{3,}|~{3,})/y;
+const LIST_ITEM_PATTERN = /^(?:[-+*]|\d{1,9}[.)])(?:\s|$)/;
+const SIZE_SUFFIX = /^\d+(x\d+)?$/;
+
+// <img ...>，引号内的属性值允许包含 >
+const HTML_IMG_PATTERN = /<img\b(?:[^>"']|"[^"]*"|'[^']*')*>/gi;
+// 尖括号形式链接目标的结束位置：> 之后是可选的标题和右括号
+const ANGLE_DESTINATION_END =
+	/>[ \t]*(?:"[^"\n]*"[ \t]*|'[^'\n]*'[ \t]*|\([^)\n]*\)[ \t]*)?\)/y;
+// [id]: <data:...> "title"，尖括号中可以出现 < 和 >（未编码的 SVG）
+const REFERENCE_PATTERN =
+	/^ {0,3}\[((?:[^\]\\\n]|\\.)+)\]:[ \t]*(<[^\n]*?>|\S+)(?:[ \t]+("[^"\n]*"|'[^'\n]*'|\([^)\n]*\)))?[ \t]*$/gm;
+
+// 解析文本中所有携带 data URL 的图片，offset 为文本在文档中的起始位置；
+// 代码块和行内代码中的图片语法只是示例，不会被解析
+export function parseImages(text: string, offset = 0): ParsedImage[] {
+	const images = [
+		...parseMarkdownImages(text),
+		...parseHtmlImages(text),
+		...parseReferenceDefinitions(text),
+	].sort((a, b) => a.from - b.from);
+	const codeRanges = findCodeRanges(text);
+
+	// 去掉代码中的匹配，以及相互重叠的匹配（如 HTML 属性中出现的 Markdown 语法）
+	const result: ParsedImage[] = [];
+	let lastEnd = -1;
+	let codeIndex = 0;
+	for (const image of images) {
+		while (
+			codeIndex < codeRanges.length &&
+			(codeRanges[codeIndex]?.[1] ?? 0) <= image.from
+		) {
+			codeIndex++;
+		}
+		const code = codeRanges[codeIndex];
+		if (code && code[0] <= image.from) continue;
+		if (image.from < lastEnd) continue;
+		lastEnd = image.to;
+		result.push(
+			offset
+				? { ...image, from: image.from + offset, to: image.to + offset }
+				: image,
+		);
+	}
+	return result;
+}
+
+// 查找文本中的代码区间：围栏代码块（未闭合时延续到文本末尾）、
+// 空行后缩进至少 4 个空格的代码块，以及段落中的行内代码，按位置排序
+export function findCodeRanges(text: string): [number, number][] {
+	const ranges: [number, number][] = [];
+	let fence: { marker: string; from: number } | null = null;
+	let indented: [number, number] | null = null;
+	// 当前段落的起始位置，行内代码只在段落内查找
+	let paragraphFrom = -1;
+	let previousBlank = true;
+
+	const endParagraph = (to: number) => {
+		if (paragraphFrom !== -1) {
+			findCodeSpans(text, paragraphFrom, to, ranges);
+			paragraphFrom = -1;
+		}
+	};
+
+	let start = 0;
+	while (start <= text.length) {
+		const newline = text.indexOf("\n", start);
+		const end = newline === -1 ? text.length : newline;
+
+		if (fence) {
+			if (closesFence(text, start, end, fence.marker)) {
+				ranges.push([fence.from, end]);
+				fence = null;
+				previousBlank = false;
+			}
+		} else {
+			const marker = parseFenceLine(text, start, end);
+			const indent = countIndent(text, start, end);
+			const blank = start + indent.chars === end;
+
+			if (indented && !blank && indent.columns < 4) {
+				ranges.push(indented);
+				indented = null;
+			}
+
+			if (marker) {
+				endParagraph(start);
+				fence = { marker, from: start };
+			} else if (blank) {
+				endParagraph(start);
+			} else if (
+				indented ||
+				(previousBlank &&
+					indent.columns >= 4 &&
+					!LIST_ITEM_PATTERN.test(
+						text.substring(start + indent.chars, start + indent.chars + 12),
+					))
+			) {
+				// 嵌套列表项不是代码
+				endParagraph(start);
+				if (indented) indented[1] = end;
+				else indented = [start, end];
+			} else if (paragraphFrom === -1) {
+				paragraphFrom = start;
+			}
+			previousBlank = blank;
+		}
+
+		if (newline === -1) break;
+		start = newline + 1;
+	}
+
+	if (fence) ranges.push([fence.from, text.length]);
+	if (indented) ranges.push(indented);
+	endParagraph(text.length);
+	return ranges;
+}
+
+// 若该行是围栏代码块的开始（``` 或 ~~~，最多缩进 3 个空格），返回围栏标记
+export function parseFenceLine(
+	text: string,
+	start: number,
+	end: number,
+): string | null {
+	FENCE_PATTERN.lastIndex = start;
+	const match = FENCE_PATTERN.exec(text);
+	if (!match || match.index + match[0].length > end) return null;
+	const marker = match[1] ?? "";
+	// 反引号围栏的信息字符串中不能再出现反引号
+	if (
+		marker.startsWith("`") &&
+		text.substring(start + match[0].length, end).includes("`")
+	) {
+		return null;
+	}
+	return marker;
+}
+
+// 该行是否关闭以 marker 开始的围栏：同种字符、长度不短于开始标记且没有其它内容
+export function closesFence(
+	text: string,
+	start: number,
+	end: number,
+	marker: string,
+): boolean {
+	const opening = parseFenceLine(text, start, end);
+	if (!opening || opening[0] !== marker[0] || opening.length < marker.length) {
+		return false;
+	}
+	const rest = text.substring(text.indexOf(opening, start) + opening.length, end);
+	return rest.trim() === "";
+}
+
+// 在 [from, to) 中查找行内代码：长度相同的一对反引号串之间的内容
+function findCodeSpans(
+	text: string,
+	from: number,
+	to: number,
+	ranges: [number, number][],
+) {
+	let pos = text.indexOf("`", from);
+	while (pos !== -1 && pos < to) {
+		let runEnd = pos;
+		while (text[runEnd] === "`") runEnd++;
+		// 被转义的反引号不能开始行内代码
+		if (text[pos - 1] === "\\") {
+			pos = text.indexOf("`", pos + 1);
+			continue;
+		}
+
+		let close = text.indexOf("`", runEnd);
+		let closeEnd = -1;
+		while (close !== -1 && close < to) {
+			closeEnd = close;
+			while (text[closeEnd] === "`") closeEnd++;
+			if (closeEnd - close === runEnd - pos) break;
+			close = text.indexOf("`", closeEnd);
+		}
+
+		if (close === -1 || close >= to) {
+			// 没有匹配的结束反引号，按普通字符处理
+			pos = text.indexOf("`", runEnd);
+		} else {
+			ranges.push([pos, closeEnd]);
+			pos = text.indexOf("`", closeEnd);
+		}
+	}
+}
+
+// 行首空白的字符数和列数（制表符按 4 列计算）
+function countIndent(
+	text: string,
+	start: number,
+	end: number,
+): { chars: number; columns: number } {
+	let columns = 0;
+	let pos = start;
+	for (; pos < end; pos++) {
+		const ch = text[pos];
+		if (ch === " ") columns++;
+		else if (ch === "\t") columns += 4 - (columns % 4);
+		else if (ch !== "\r") break;
+	}
+	return { chars: pos - start, columns };
+}
+
+// ![alt](data:... "title")、![alt](<data:...>)、![alt|300](data:...)
+function parseMarkdownImages(text: string): ParsedImage[] {
+	const images: ParsedImage[] = [];
+	let start = text.indexOf("![");
+
+	while (start !== -1) {
+		const image = parseMarkdownImageAt(text, start);
+		if (image) {
+			images.push(image);
+			start = text.indexOf("![", image.to);
+		} else {
+			start = text.indexOf("![", start + 2);
+		}
+	}
+
+	return images;
+}
+
+function parseMarkdownImageAt(text: string, start: number): ParsedImage | null {
+	// 描述部分：允许成对的方括号和反斜杠转义
+	let pos = start + 2;
+	let depth = 0;
+	for (; pos < text.length; pos++) {
+		const ch = text[pos];
+		if (ch === "\\") {
+			pos++;
+		} else if (ch === "\n" && text[pos + 1] === "\n") {
+			return null;
+		} else if (ch === "[") {
+			depth++;
+		} else if (ch === "]") {
+			if (depth === 0) break;
+			depth--;
+		}
+	}
+	if (pos >= text.length || text[pos + 1] !== "(") return null;
+
+	const rawAltStart = start + 2;
+	const rawAltEnd = pos;
+	pos += 2;
+	while (text[pos] === " " || text[pos] === "\t") pos++;
+
+	// 链接目标：<...> 或不含空白、括号成对的字符串
+	let dataStart: number;
+	let dataEnd: number;
+	if (text[pos] === "<") {
+		dataStart = pos + 1;
+		if (!DATA_IMAGE_PREFIX.test(text.substring(dataStart, dataStart + 11))) {
+			return null;
+		}
+		// 未编码的 SVG 中会出现 < 和 >，以其后紧跟标题或右括号的 > 作为结束
+		const lineEnd = text.indexOf("\n", dataStart);
+		dataEnd = text.indexOf(">", dataStart);
+		while (dataEnd !== -1 && (lineEnd === -1 || dataEnd < lineEnd)) {
+			ANGLE_DESTINATION_END.lastIndex = dataEnd;
+			if (ANGLE_DESTINATION_END.test(text)) break;
+			dataEnd = text.indexOf(">", dataEnd + 1);
+		}
+		if (dataEnd === -1 || (lineEnd !== -1 && dataEnd > lineEnd)) {
+			return null;
+		}
+		pos = dataEnd + 1;
+	} else {
+		dataStart = pos;
+		let parens = 0;
+		for (; pos < text.length; pos++) {
+			const ch = text[pos];
+			if (ch === " " || ch === "\t" || ch === "\n") break;
+			if (ch === "(") parens++;
+			if (ch === ")") {
+				if (parens === 0) break;
+				parens--;
+			}
+		}
+		dataEnd = pos;
+	}
+
+	if (!DATA_IMAGE_PREFIX.test(text.substring(dataStart, dataStart + 11))) {
+		return null;
+	}
+
+	// 可选的标题
+	let title: string | null = null;
+	while (text[pos] === " " || text[pos] === "\t") pos++;
+	const quote = text[pos];
+	if (quote === '"' || quote === "'" || quote === "(") {
+		const close = quote === "(" ? ")" : quote;
+		const titleEnd = text.indexOf(close, pos + 1);
+		if (titleEnd === -1) return null;
+		title = text.substring(pos + 1, titleEnd);
+		pos = titleEnd + 1;
+		while (text[pos] === " " || text[pos] === "\t") pos++;
+	}
+	if (text[pos] !== ")") return null;
+
+	const to = pos + 1;
+	const rawAlt = text.substring(rawAltStart, rawAltEnd);
+
+	// 拆分 Obsidian 尺寸后缀 ![alt|300]
+	const { alt, size } = splitSizeSuffix(rawAlt);
+
+	return {
+		syntax: "markdown",
+		from: start,
+		to,
+		fullText: text.substring(start, to),
+		alt: unescapeMarkdown(alt),
+		dataUrl: text.substring(dataStart, dataEnd),
+		altRange: [2, 2 + alt.length],
+		dataRange: [dataStart - start, dataEnd - start],
+		size,
+		title,
+		label: null,
+	};
+}
+
+// <img src="data:..." alt="...">
+function parseHtmlImages(text: string): ParsedImage[] {
+	const images: ParsedImage[] = [];
+
+	for (const match of text.matchAll(HTML_IMG_PATTERN)) {
+		const tag = match[0];
+		const src = findHtmlAttribute(tag, "src");
+		if (!src || !DATA_IMAGE_PREFIX.test(src.value)) continue;
+
+		const alt = findHtmlAttribute(tag, "alt");
+		const from = match.index ?? 0;
+		images.push({
+			syntax: "html",
+			from,
+			to: from + tag.length,
+			fullText: tag,
+			alt: alt ? unescapeHtml(alt.value) : "",
+			dataUrl: src.value,
+			altRange: alt ? alt.range : null,
+			dataRange: src.range,
+			size: null,
+			title: findHtmlAttribute(tag, "title")?.value ?? null,
+			label: null,
+		});
+	}
+
+	return images;
+}
+
+// 查找 HTML 标签中的属性值及其在标签中的区间
+function findHtmlAttribute(
+	tag: string,
+	name: string,
+): { value: string; range: [number, number] } | null {
+	const pattern = new RegExp(
+		`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`,
+		"i",
+	);
+	const match = pattern.exec(tag);
+	if (!match) return null;
+
+	const value = match[1] ?? match[2] ?? match[3] ?? "";
+	// 值位于匹配末尾（带引号时在结束引号之前）
+	const quoted = match[3] === undefined;
+	const end = match.index + match[0].length - (quoted ? 1 : 0);
+	return { value, range: [end - value.length, end] };
+}
+
+// [id]: data:image/...
+function parseReferenceDefinitions(text: string): ParsedImage[] {
+	const images: ParsedImage[] = [];
+
+	for (const match of text.matchAll(REFERENCE_PATTERN)) {
+		const destination = match[2] ?? "";
+		const bracketed = destination.startsWith("<");
+		const dataUrl = bracketed ? destination.slice(1, -1) : destination;
+		if (!DATA_IMAGE_PREFIX.test(dataUrl)) continue;
+
+		const from = match.index ?? 0;
+		const fullText = match[0];
+		const destinationStart = fullText.indexOf(
+			destination,
+			fullText.indexOf("]:") + 2,
+		);
+		const dataStart = destinationStart + (bracketed ? 1 : 0);
+		const title = match[3];
+
+		images.push({
+			syntax: "reference",
+			from,
+			to: from + fullText.length,
+			fullText,
+			alt: "",
+			dataUrl,
+			altRange: null,
+			dataRange: [dataStart, dataStart + dataUrl.length],
+			size: null,
+			title: title ? title.slice(1, -1) : null,
+			label: match[1] ?? null,
+		});
+	}
+
+	return images;
+}
+
+// 在保留原有语法的前提下改写图片的描述和 data URL
+export function rewriteImage(image: ParsedImage, changes: ImageChanges): string {
+	const edits: { range: [number, number]; value: string }[] = [];
+
+	if (changes.dataUrl !== undefined) {
+		let value = changes.dataUrl;
+		// 含空白的 data URL（如未编码的 SVG）在 Markdown 中需要用尖括号包裹
+		const bracketed = image.fullText[image.dataRange[0] - 1] === "<";
+		if (image.syntax !== "html" && !bracketed && /\s/.test(value)) {
+			value = `<${value}>`;
+		}
+		edits.push({ range: image.dataRange, value });
+	}
+
+	if (changes.alt !== undefined && changes.alt !== image.alt) {
+		const value =
+			image.syntax === "html"
+				? escapeHtml(changes.alt)
+				: escapeMarkdown(changes.alt);
+		if (image.altRange) {
+			edits.push({ range: image.altRange, value });
+		} else if (image.syntax === "html") {
+			// 原标签没有 alt 属性时插入到 <img 之后
+			edits.push({ range: [4, 4], value: ` alt="${value}"` });
+		}
+	}
+
+	let text = image.fullText;
+	edits
+		.sort((a, b) => b.range[0] - a.range[0])
+		.forEach(({ range, value }) => {
+			text = text.substring(0, range[0]) + value + text.substring(range[1]);
+		});
+	return text;
+}
+
+// 文本中需要替换的一段
+export interface TextReplacement {
+	from: number;
+	to: number;
+	text: string;
+}
+
+// 按位置替换文本，替换区间互不重叠
+export function applyReplacements(
+	text: string,
+	replacements: TextReplacement[],
+): string {
+	const sorted = [...replacements].sort((a, b) => a.from - b.from);
+	let result = "";
+	let position = 0;
+	for (const { from, to, text: insert } of sorted) {
+		result += text.substring(position, from) + insert;
+		position = to;
+	}
+	return result + text.substring(position);
+}
+
+// 替换文本中解析出的图片，replace 返回 null 时保留原文；
+// 只改写真正的图片，代码中相同的文本保持不变
+export function replaceImages(
+	text: string,
+	replace: (image: ParsedImage) => string | null,
+): string {
+	const edits: TextReplacement[] = [];
+	for (const image of parseImages(text)) {
+		const insert = replace(image);
+		if (insert !== null) {
+			edits.push({ from: image.from, to: image.to, text: insert });
+		}
+	}
+	return applyReplacements(text, edits);
+}
+
+// 生成新的 Markdown 图片文本
+export function formatMarkdownImage(
+	alt: string,
+	dataUrl: string,
+	size: string | null = null,
+): string {
+	const destination = /\s/.test(dataUrl) ? `<${dataUrl}>` : dataUrl;
+	const sizeSuffix = size ? `|${size}` : "";
+	return `![${escapeMarkdown(alt)}${sizeSuffix}](${destination})`;
+}
+
+// 拆分 Obsidian 尺寸后缀 ![alt|300]，返回未去除转义的描述和尺寸
+export function splitSizeSuffix(rawAlt: string): {
+	alt: string;
+	size: string | null;
+} {
+	const pipeIndex = rawAlt.lastIndexOf("|");
+	const suffix = rawAlt.substring(pipeIndex + 1);
+	if (pipeIndex === -1 || !SIZE_SUFFIX.test(suffix)) {
+		return { alt: rawAlt, size: null };
+	}
+	return { alt: rawAlt.substring(0, pipeIndex), size: suffix };
+}
+
+// 生成新的 HTML 图片标签
+export function formatHtmlImage(alt: string, dataUrl: string): string {
+	return `<img src="${escapeHtml(dataUrl)}" alt="${escapeHtml(alt)}">`;
+}
+
+function escapeMarkdown(text: string): string {
+	return text.replace(/([[\]\\])/g, "\\$1");
+}
+
+// 去除 Markdown 图片描述中的转义
+export function unescapeMarkdown(text: string): string {
+	return text.replace(/\\([[\]\\])/g, "$1");
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/"/g, "&quot;")
+		.replace(/</g, "&lt;");
+}
+
+function unescapeHtml(text: string): string {
+	return text
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&amp;/g, "&");
+}
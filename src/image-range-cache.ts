@@ -0,0 +1,263 @@
+import type { ChangeDesc, Text } from "@codemirror/state";
+import {
+	ParsedImage,
+	closesFence,
+	parseFenceLine,
+	parseImages,
+} from "./image-parser";
+
+// 一个段落（以空行分隔）的解析结果
+interface ParagraphEntry {
+	from: number;
+	to: number;
+	images: ParsedImage[];
+	// 段落中图片的总大小，首次统计时计算
+	bytes?: number;
+}
+
+// 围栏代码块，从开始行行首到结束行行尾（未闭合时到文档末尾）
+interface FenceBlock {
+	from: number;
+	to: number;
+}
+
+// 按段落缓存图片解析结果，只解析请求范围内尚未缓存的段落。
+// 图片语法不会跨越空行，所以段落是可以独立解析的最小单位。
+// 围栏代码块可能包含空行，需要根据整篇文档确定，其中的段落不解析。
+export class ImageRangeCache {
+	// 以段落起始位置为键
+	private paragraphs = new Map<number, ParagraphEntry>();
+	// 文档中的围栏代码块，首次使用时计算
+	private fences: FenceBlock[] | null = null;
+	// 修改触及围栏时需要重新计算
+	private fencesStale = false;
+	// 上次计算后被修改的范围，其中可能出现新的围栏行
+	private dirty: { from: number; to: number }[] = [];
+
+	// 文档修改后映射缓存位置，丢弃被修改过的段落
+	map(changes: ChangeDesc) {
+		if (changes.empty) return;
+
+		if (this.fences) {
+			if (
+				this.fences.some((fence) =>
+					changes.touchesRange(fence.from, fence.to),
+				)
+			) {
+				this.fencesStale = true;
+			}
+			this.fences = this.fences.map((fence) => ({
+				from: changes.mapPos(fence.from),
+				to: changes.mapPos(fence.to),
+			}));
+			this.dirty = this.dirty.map((range) => ({
+				from: changes.mapPos(range.from, -1),
+				to: changes.mapPos(range.to, 1),
+			}));
+			changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+				this.dirty.push({ from: fromB, to: toB });
+			}, true);
+		}
+
+		const mapped = new Map<number, ParagraphEntry>();
+		this.paragraphs.forEach((entry) => {
+			if (changes.touchesRange(entry.from, entry.to)) return;
+
+			const from = changes.mapPos(entry.from);
+			const delta = from - entry.from;
+			mapped.set(from, {
+				...entry,
+				from,
+				to: entry.to + delta,
+				images: delta
+					? entry.images.map((image) => ({
+							...image,
+							from: image.from + delta,
+							to: image.to + delta,
+						}))
+					: entry.images,
+			});
+		});
+		this.paragraphs = mapped;
+	}
+
+	// 修改后重新确定围栏代码块，返回围栏是否有变化（变化后需要重建装饰）
+	updateFences(doc: Text): boolean {
+		const previous = this.fences;
+		if (
+			previous &&
+			!this.fencesStale &&
+			!this.dirty.some((range) => hasFenceLine(doc, range.from, range.to))
+		) {
+			this.dirty = [];
+			return false;
+		}
+
+		const fences = findFences(doc);
+		this.fences = fences;
+		this.fencesStale = false;
+		this.dirty = [];
+		return (
+			previous !== null &&
+			(previous.length !== fences.length ||
+				previous.some(
+					(fence, i) =>
+						fence.from !== fences[i]?.from || fence.to !== fences[i]?.to,
+				))
+		);
+	}
+
+	// 返回与 [from, to] 所在段落中的所有图片
+	getImages(doc: Text, from: number, to: number): ParsedImage[] {
+		return this.getParagraphs(doc, from, to).flatMap((entry) => entry.images);
+	}
+
+	// 整篇文档中图片的数量和总大小，measure 返回单张图片的大小；
+	// 结果按段落缓存，同一个缓存应始终使用同一种 measure
+	getUsage(
+		doc: Text,
+		measure: (image: ParsedImage) => number,
+	): { count: number; bytes: number } {
+		let count = 0;
+		let bytes = 0;
+		for (const entry of this.getParagraphs(doc, 0, doc.length)) {
+			if (entry.bytes === undefined) {
+				entry.bytes = entry.images.reduce(
+					(sum, image) => sum + measure(image),
+					0,
+				);
+			}
+			count += entry.images.length;
+			bytes += entry.bytes;
+		}
+		return { count, bytes };
+	}
+
+	clear() {
+		this.paragraphs.clear();
+		this.fences = null;
+		this.dirty = [];
+	}
+
+	// [from, to] 所在的段落，跳过围栏代码块
+	private getParagraphs(doc: Text, from: number, to: number): ParagraphEntry[] {
+		this.updateFences(doc);
+		const fences = this.fences ?? [];
+		const paragraphs: ParagraphEntry[] = [];
+		const [start, end] = expandToParagraphs(doc, from, to);
+
+		// 第一个在 start 之后结束的围栏
+		let fenceIndex = fences.findIndex((fence) => fence.to >= start);
+		if (fenceIndex === -1) fenceIndex = fences.length;
+
+		let line = doc.lineAt(start);
+		while (line.from <= end) {
+			// 跳过整个围栏代码块
+			const fence = fences[fenceIndex];
+			if (fence && line.from >= fence.from) {
+				const last = doc.lineAt(fence.to);
+				fenceIndex++;
+				if (last.number === doc.lines) break;
+				line = doc.line(last.number + 1);
+				continue;
+			}
+
+			// 跳过空行，找到段落的起止位置
+			if (isBlank(line.text)) {
+				if (line.number === doc.lines) break;
+				line = doc.line(line.number + 1);
+				continue;
+			}
+
+			const paragraphFrom = line.from;
+			while (line.number < doc.lines) {
+				const next = doc.line(line.number + 1);
+				if (isBlank(next.text) || (fence && next.from >= fence.from)) {
+					break;
+				}
+				line = next;
+			}
+			const paragraphTo = line.to;
+
+			paragraphs.push(this.getParagraph(doc, paragraphFrom, paragraphTo));
+
+			if (line.number === doc.lines) break;
+			line = doc.line(line.number + 1);
+		}
+
+		return paragraphs;
+	}
+
+	private getParagraph(doc: Text, from: number, to: number): ParagraphEntry {
+		const cached = this.paragraphs.get(from);
+		if (cached && cached.to === to) return cached;
+
+		const entry = {
+			from,
+			to,
+			images: parseImages(doc.sliceString(from, to), from),
+		};
+		this.paragraphs.set(from, entry);
+		return entry;
+	}
+}
+
+// 将范围扩展到所在段落的边界
+export function expandToParagraphs(
+	doc: Text,
+	from: number,
+	to: number,
+): [number, number] {
+	let first = doc.lineAt(from);
+	while (first.number > 1 && !isBlank(first.text)) {
+		const prev = doc.line(first.number - 1);
+		if (isBlank(prev.text)) break;
+		first = prev;
+	}
+
+	let last = doc.lineAt(to);
+	while (last.number < doc.lines && !isBlank(last.text)) {
+		const next = doc.line(last.number + 1);
+		if (isBlank(next.text)) break;
+		last = next;
+	}
+
+	return [first.from, last.to];
+}
+
+// 查找文档中所有的围栏代码块
+function findFences(doc: Text): FenceBlock[] {
+	const fences: FenceBlock[] = [];
+	let open: { marker: string; from: number } | null = null;
+	let pos = 0;
+
+	for (const text of doc.iterLines()) {
+		if (open) {
+			if (closesFence(text, 0, text.length, open.marker)) {
+				fences.push({ from: open.from, to: pos + text.length });
+				open = null;
+			}
+		} else {
+			const marker = parseFenceLine(text, 0, text.length);
+			if (marker) open = { marker, from: pos };
+		}
+		pos += text.length + 1;
+	}
+
+	if (open) fences.push({ from: open.from, to: doc.length });
+	return fences;
+}
+
+// [from, to] 所在的行中是否有围栏行
+function hasFenceLine(doc: Text, from: number, to: number): boolean {
+	const last = doc.lineAt(Math.min(to, doc.length)).number;
+	for (let n = doc.lineAt(Math.min(from, doc.length)).number; n <= last; n++) {
+		const { text } = doc.line(n);
+		if (parseFenceLine(text, 0, text.length)) return true;
+	}
+	return false;
+}
+
+function isBlank(text: string): boolean {
+	return text.trim() === "";
+}
@@ -0,0 +1,65 @@
+import { ParsedImage, parseImages } from "./image-parser";
+import { getImageFormat, parseDataUrl, percentDecode } from "./data-url";
+
+// 在 Markdown 文本中查找到的一处 Base64 图片
+export interface Base64ImageMatch extends ParsedImage {
+	// 所在行号（从 0 开始）
+	line: number;
+	format: string;
+	// 解码后的真实字节数
+	byteSize: number;
+}
+
+// 扫描文本中的所有 Base64 图片，并附带行号、格式和大小
+export function scanBase64Images(text: string): Base64ImageMatch[] {
+	let line = 0;
+	let lastIndex = 0;
+
+	return parseImages(text).map((image) => {
+		// 增量统计换行，避免对每个匹配重新扫描整个文本
+		line += countNewlines(text, lastIndex, image.from);
+		lastIndex = image.from;
+
+		return {
+			...image,
+			line,
+			format: getDataUrlFormat(image.dataUrl),
+			byteSize: getDecodedByteSize(image.dataUrl),
+		};
+	});
+}
+
+// 从 data URL 中读取图片格式（如 png、svg）
+export function getDataUrlFormat(dataUrl: string): string {
+	return getImageFormat(dataUrl);
+}
+
+// 计算解码后的字节数；base64 只根据长度计算，不实际解码
+export function getDecodedByteSize(dataUrl: string): number {
+	const info = parseDataUrl(dataUrl);
+	if (!info) return 0;
+
+	if (!info.isBase64) return percentDecode(info.data).length;
+
+	const payload = info.data.replace(/\s/g, "");
+	let padding = 0;
+	if (payload.endsWith("==")) padding = 2;
+	else if (payload.endsWith("=")) padding = 1;
+
+	return Math.max(0, Math.floor((payload.length * 3) / 4) - padding);
+}
+
+// 将字节数格式化为易读的大小
+export function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
+function countNewlines(text: string, start: number, end: number): number {
+	let count = 0;
+	for (let i = start; i < end; i++) {
+		if (text.charCodeAt(i) === 10) count++;
+	}
+	return count;
+}
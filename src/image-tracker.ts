@@ -0,0 +1,97 @@
+import type { ChangeDesc } from "@codemirror/state";
+import { EditorView } from "@codemirror/view";
+import { ParsedImage, parseImages } from "./image-parser";
+import { expandToParagraphs } from "./image-range-cache";
+
+// 打开 Modal 期间跟踪的一张图片，位置随文档修改同步更新
+export interface TrackedImage {
+	// 打开时的图片内容，用于确认和重新定位
+	info: ParsedImage;
+	from: number;
+	to: number;
+}
+
+// 各编辑器中正在跟踪的图片
+const trackedImages = new WeakMap<EditorView, Set<TrackedImage>>();
+
+export function trackImage(view: EditorView, info: ParsedImage): TrackedImage {
+	const tracked = { info, from: info.from, to: info.to };
+	let set = trackedImages.get(view);
+	if (!set) {
+		set = new Set();
+		trackedImages.set(view, set);
+	}
+	set.add(tracked);
+	return tracked;
+}
+
+export function untrackImage(view: EditorView, tracked: TrackedImage) {
+	trackedImages.get(view)?.delete(tracked);
+}
+
+// 文档修改时映射所有跟踪中的图片位置
+export const imageTrackerListener = EditorView.updateListener.of((update) => {
+	if (!update.docChanged) return;
+	trackedImages.get(update.view)?.forEach((tracked) => {
+		mapTrackedImage(tracked, update.changes);
+	});
+});
+
+function mapTrackedImage(tracked: TrackedImage, changes: ChangeDesc) {
+	tracked.from = changes.mapPos(tracked.from, 1);
+	tracked.to = Math.max(tracked.from, changes.mapPos(tracked.to, -1));
+}
+
+// 找到图片当前在文档中的位置和内容：
+// 先检查跟踪的位置是否仍是原图片，再按原文和图片数据重新查找，找不到时返回 null
+export function locateTrackedImage(
+	view: EditorView,
+	tracked: TrackedImage,
+): ParsedImage | null {
+	const { doc } = view.state;
+	const { info } = tracked;
+
+	if (doc.sliceString(tracked.from, tracked.to) === info.fullText) {
+		return { ...info, from: tracked.from, to: tracked.to };
+	}
+
+	// 跟踪位置附近的段落中是否有同一张图片（如描述被手动修改）
+	const nearby = findImageNear(view, tracked.from, info);
+	if (nearby) return nearby;
+
+	// 在整篇文档中查找同样的图片数据，取离原位置最近的一处
+	const text = doc.toString();
+	let best: number | null = null;
+	let index = text.indexOf(info.dataUrl);
+	while (index !== -1) {
+		if (
+			best === null ||
+			Math.abs(index - tracked.from) < Math.abs(best - tracked.from)
+		) {
+			best = index;
+		}
+		index = text.indexOf(info.dataUrl, index + info.dataUrl.length);
+	}
+
+	return best === null ? null : findImageNear(view, best, info);
+}
+
+// 在 pos 所在段落中查找与原图片相同的图片，优先完全相同的原文
+function findImageNear(
+	view: EditorView,
+	pos: number,
+	info: ParsedImage,
+): ParsedImage | null {
+	const { doc } = view.state;
+	const [start, end] = expandToParagraphs(
+		doc,
+		Math.min(pos, doc.length),
+		Math.min(pos, doc.length),
+	);
+	const images = parseImages(doc.sliceString(start, end), start);
+	return (
+		images.find((image) => image.fullText === info.fullText) ??
+		images.find((image) => image.dataUrl === info.dataUrl) ??
+		null
+	);
+}
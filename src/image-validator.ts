@@ -0,0 +1,307 @@
+import { ButtonComponent, MarkdownView, Modal, TFile } from "obsidian";
+import {
+	base64ToBytes,
+	decodeDataUrlBytes,
+	detectMimeType,
+	parseDataUrl,
+} from "./data-url";
+import { t } from "./i18n";
+import { getNotesAndCanvases, scanFileImages } from "./canvas";
+
+export type ImageProblemKind =
+	| "invalid-data-url"
+	| "invalid-characters"
+	| "bad-padding"
+	| "undecodable"
+	| "unknown-format"
+	| "truncated"
+	| "mime-mismatch";
+
+export interface ImageProblem {
+	kind: ImageProblemKind;
+	// 数据损坏为 error；MIME 类型不符但图片仍可显示为 warning
+	severity: "error" | "warning";
+	message: string;
+	// 根据文件头识别出的真实类型
+	detectedMimeType: string | null;
+}
+
+// 部分格式的结束标记，用于判断数据是否被截断
+const PNG_IEND = [0x49, 0x45, 0x4e, 0x44, 0xae, 0x42, 0x60, 0x82];
+const JPEG_EOI = [0xff, 0xd9];
+const GIF_TRAILER = [0x3b];
+
+// 浏览器对这些类型的别名一视同仁
+const MIME_ALIASES: Record<string, string> = {
+	"image/jpg": "image/jpeg",
+	"image/pjpeg": "image/jpeg",
+	"image/vnd.microsoft.icon": "image/x-icon",
+	"image/heif": "image/heic",
+};
+
+// 完整校验一个图片 data URL，没有问题时返回 null
+export function validateDataUrl(dataUrl: string): ImageProblem | null {
+	const info = parseDataUrl(dataUrl);
+	if (!info) {
+		return problem("invalid-data-url", t("problem.invalidDataUrl"));
+	}
+
+	let bytes: Uint8Array | null;
+	if (info.isBase64) {
+		const data = info.data.replace(/\s/g, "");
+		const invalid = /[^A-Za-z0-9+/=]/.exec(data);
+		if (invalid) {
+			return problem(
+				"invalid-characters",
+				t("problem.invalidCharacters", { char: invalid[0] }),
+			);
+		}
+		if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 !== 0) {
+			return problem("bad-padding", t("problem.badPadding"));
+		}
+		try {
+			bytes = base64ToBytes(data);
+		} catch {
+			bytes = null;
+		}
+	} else {
+		bytes = decodeDataUrlBytes(dataUrl);
+	}
+
+	if (!bytes || bytes.length === 0) {
+		return problem("undecodable", t("problem.undecodable"));
+	}
+
+	const detected = detectMimeType(bytes);
+	if (!detected) {
+		return problem("unknown-format", t("problem.unknownFormat"));
+	}
+	if (isTruncated(bytes, detected)) {
+		return problem("truncated", t("problem.truncated"), detected);
+	}
+	if (normalizeMimeType(info.mimeType) !== normalizeMimeType(detected)) {
+		return {
+			kind: "mime-mismatch",
+			severity: "warning",
+			message: t("problem.mimeMismatch", {
+				declared: info.mimeType,
+				detected,
+			}),
+			detectedMimeType: detected,
+		};
+	}
+
+	return null;
+}
+
+// 是否是可以显示的图片 data URL（支持 base64 和百分号编码）；
+// 类型声明不符时图片仍可显示
+export function isValidImage(dataUrl: string): boolean {
+	const info = parseDataUrl(dataUrl);
+	if (!info || !info.mimeType.startsWith("image/")) {
+		return false;
+	}
+
+	const problem = validateDataUrl(dataUrl);
+	return !problem || problem.severity === "warning";
+}
+
+// 替换 data URL 中声明的 MIME 类型，保留其余参数
+export function replaceMimeType(dataUrl: string, mimeType: string): string {
+	const match = /^data:[^;,]*/i.exec(dataUrl);
+	if (!match) return dataUrl;
+	return `data:${mimeType}${dataUrl.substring(match[0].length)}`;
+}
+
+// 修正 base64 数据的填充；长度无法修正时返回 null
+export function fixBase64Padding(dataUrl: string): string | null {
+	const info = parseDataUrl(dataUrl);
+	if (!info || !info.isBase64) return null;
+
+	const data = info.data.replace(/\s/g, "").replace(/=+$/, "");
+	if (/[^A-Za-z0-9+/]/.test(data) || data.length % 4 === 1) return null;
+
+	const header = dataUrl.substring(0, dataUrl.indexOf(",") + 1);
+	return header + data + "=".repeat((4 - (data.length % 4)) % 4);
+}
+
+// 将 URL 安全的 base64（- 和 _）转换为标准 base64；包含其他无效字符时返回 null
+export function fixUrlSafeBase64(dataUrl: string): string | null {
+	const info = parseDataUrl(dataUrl);
+	if (!info || !info.isBase64) return null;
+
+	const data = info.data.replace(/\s/g, "");
+	if (/[^A-Za-z0-9+/=\-_]/.test(data)) return null;
+
+	const header = dataUrl.substring(0, dataUrl.indexOf(",") + 1);
+	return fixBase64Padding(
+		header + data.replace(/-/g, "+").replace(/_/g, "/"),
+	);
+}
+
+function problem(
+	kind: ImageProblemKind,
+	message: string,
+	detectedMimeType: string | null = null,
+): ImageProblem {
+	return { kind, severity: "error", message, detectedMimeType };
+}
+
+function normalizeMimeType(mimeType: string): string {
+	return MIME_ALIASES[mimeType] ?? mimeType;
+}
+
+function isTruncated(bytes: Uint8Array, mimeType: string): boolean {
+	const endsWith = (signature: number[]) =>
+		signature.every(
+			(byte, i) => bytes[bytes.length - signature.length + i] === byte,
+		);
+
+	switch (mimeType) {
+		case "image/png":
+			return !endsWith(PNG_IEND);
+		case "image/jpeg":
+			// 有些编码器会在结束标记后补零，只检查末尾附近
+			return !bytes
+				.subarray(Math.max(0, bytes.length - 64))
+				.some(
+					(byte, i, tail) =>
+						byte === JPEG_EOI[0] && tail[i + 1] === JPEG_EOI[1],
+				);
+		case "image/gif":
+			return !endsWith(GIF_TRAILER);
+		default:
+			return false;
+	}
+}
+
+// 仓库检查结果中的一处问题
+interface ReportEntry {
+	file: TFile;
+	line: number;
+	from: number;
+	to: number;
+	alt: string;
+	problem: ImageProblem;
+}
+
+// 检查仓库中所有 Base64 图片并列出有问题的图片
+export class ImageCheckReportModal extends Modal {
+	private cancelled = false;
+
+	onOpen() {
+		this.setTitle(t("check.title"));
+		void this.runCheck();
+	}
+
+	onClose() {
+		this.cancelled = true;
+		this.contentEl.empty();
+	}
+
+	private async runCheck() {
+		const { contentEl } = this;
+		const files = getNotesAndCanvases(this.app);
+
+		const statusEl = contentEl.createDiv({ cls: "base64-batch-status" });
+		const progressEl = contentEl.createEl("progress", {
+			cls: "base64-batch-progress",
+		});
+		progressEl.max = files.length;
+
+		const entries: ReportEntry[] = [];
+		let imageCount = 0;
+
+		for (const [index, file] of files.entries()) {
+			if (this.cancelled) return;
+			statusEl.setText(
+				t("check.progress", {
+					current: index + 1,
+					total: files.length,
+					path: file.path,
+				}),
+			);
+
+			const images = scanFileImages(
+				file,
+				await this.app.vault.cachedRead(file),
+			);
+			imageCount += images.length;
+			for (const image of images) {
+				const problem = validateDataUrl(image.dataUrl);
+				if (problem) {
+					entries.push({
+						file,
+						line: image.line,
+						from: image.from,
+						to: image.to,
+						alt: image.alt,
+						problem,
+					});
+				}
+			}
+			progressEl.value = index + 1;
+		}
+
+		this.renderReport(entries, imageCount);
+	}
+
+	private renderReport(entries: ReportEntry[], imageCount: number) {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createDiv({
+			cls: "base64-batch-summary",
+			text:
+				entries.length > 0
+					? t("check.problemsFound", {
+							images: imageCount,
+							problems: entries.length,
+						})
+					: t("check.noProblems", { images: imageCount }),
+		});
+
+		if (entries.length > 0) {
+			const list = contentEl.createDiv({ cls: "base64-batch-list" });
+			for (const entry of entries) {
+				const item = list.createDiv({
+					cls: `base64-check-item is-${entry.problem.severity}`,
+				});
+				item.createDiv({
+					cls: "base64-check-location",
+					text: `${entry.file.path}:${entry.line + 1}${entry.alt ? ` · ${entry.alt}` : ""}`,
+				});
+				item.createDiv({
+					cls: "base64-check-message",
+					text: entry.problem.message,
+				});
+				item.addEventListener("click", () => {
+					void this.openEntry(entry);
+				});
+			}
+		}
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("common.close"))
+			.onClick(() => {
+				this.close();
+			});
+	}
+
+	private async openEntry(entry: ReportEntry) {
+		this.close();
+
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(entry.file, { eState: { line: entry.line } });
+
+		if (leaf.view instanceof MarkdownView) {
+			const editor = leaf.view.editor;
+			const from = editor.offsetToPos(entry.from);
+			const to = editor.offsetToPos(entry.to);
+			editor.setCursor(from);
+			editor.scrollIntoView({ from, to }, true);
+			editor.focus();
+		}
+	}
+}
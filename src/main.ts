@@ -1,4 +1,16 @@
-import { Plugin, Modal, App, Notice, Editor, MarkdownView } from "obsidian";
+import {
+	Plugin,
+	Modal,
+	App,
+	Notice,
+	Editor,
+	Setting,
+	ButtonComponent,
+	TFile,
+	MarkdownView,
+	editorInfoField,
+	debounce,
+} from "obsidian";
 import {
 	EditorView,
 	Decoration,
@@ -7,43 +19,177 @@ import {
 	ViewUpdate,
 	WidgetType,
 } from "@codemirror/view";
-import { RangeSetBuilder, EditorSelection } from "@codemirror/state";
-
-// Base64 图片信息接口
-interface Base64ImageInfo {
-	fullText: string;
-	alt: string;
-	dataUrl: string;
-	position: { from: number; to: number };
-}
+import {
+	RangeSetBuilder,
+	EditorState,
+	Extension,
+	Range,
+	Text,
+} from "@codemirror/state";
+import { Action, Diagnostic, linter } from "@codemirror/lint";
+import {
+	scanBase64Images,
+	getDecodedByteSize,
+	formatBytes,
+	getDataUrlFormat,
+} from "./image-scanner";
+import {
+	decodeDataUrl,
+	formatAttachmentName,
+	saveImageAsAttachment,
+	saveImageToFolder,
+} from "./image-extractor";
+import { CopyFormat, copyImage } from "./image-clipboard";
+import {
+	ImageMetadata,
+	readImageMetadata,
+	stripImageMetadata,
+} from "./image-metadata";
+import { StripMetadataModal } from "./metadata-stripper";
+import { getNotesAndCanvases, isNoteOrCanvas } from "./canvas";
+import { ParsedImage, rewriteImage } from "./image-parser";
+import { ImageRangeCache, expandToParagraphs } from "./image-range-cache";
+import {
+	TrackedImage,
+	imageTrackerListener,
+	locateTrackedImage,
+	trackImage,
+	untrackImage,
+} from "./image-tracker";
+import {
+	ImageCheckReportModal,
+	ImageProblem,
+	fixBase64Padding,
+	fixUrlSafeBase64,
+	isValidImage,
+	replaceMimeType,
+	validateDataUrl,
+} from "./image-validator";
+import {
+	blobToBase64,
+	decodeDataUrlText,
+	mimeTypeToExtension,
+	normalizeImageInput,
+	parseDataUrl,
+	svgToDataUrl,
+} from "./data-url";
+import {
+	BatchExtractModal,
+	FolderSuggestModal,
+} from "./batch-extract";
+import { ImageEditorModal } from "./image-editor";
+import {
+	ImageFileSuggestModal,
+	inlineLocalImages,
+	readFileAsDataUrl,
+} from "./image-inliner";
+import {
+	getImageFiles,
+	handleEditorDrop,
+	handleEditorPaste,
+	pasteClipboardImageAsBase64,
+} from "./paste-handler";
+import {
+	Base64ImageSettings,
+	Base64ImageSettingTab,
+	CompressFormat,
+	DEFAULT_SETTINGS,
+	DISPLAY_MODES,
+	DISPLAY_MODE_PROPERTY,
+	DisplayMode,
+	getDisplayModeLabels,
+} from "./settings";
+import { setLanguage, t } from "./i18n";
+import { Base64ImageApi, triggerImageEvent } from "./api";
+import { exportNoteAsHtml, exportNoteAsZip } from "./note-exporter";
+import {
+	ImageUsage,
+	getImageUsage,
+	getNoteBudget,
+	warnIfOverBudget,
+} from "./size-budget";
+import {
+	ImageLookup,
+	ImageNavigatorModal,
+	deleteImageInEditor,
+	extractImageInEditor,
+	getImageAtCursor,
+	goToAdjacentImage,
+} from "./image-navigator";
+import {
+	NormalizeResult,
+	inlineImageReferences,
+	moveImagesToReferences,
+} from "./reference-normalizer";
+import {
+	CompressNoteModal,
+	compressDataUrl,
+	describeSizeChange,
+	getCompressOptions,
+	isCompressible,
+	loadImage,
+} from "./image-compressor";
+import {
+	Base64ImageIndexView,
+	VIEW_TYPE_BASE64_INDEX,
+} from "./image-index-view";
 
 // 自定义 Widget 用于折叠显示 base64 图片
 class Base64ImageWidget extends WidgetType {
+	// 创建时的显示参数，设置修改后用于判断是否需要重绘
+	private renderKey: string;
+
 	constructor(
-		private info: Base64ImageInfo,
+		private info: ParsedImage,
 		private view: EditorView,
 		private plugin: Base64ImagePlugin,
+		private displayMode: DisplayMode,
 	) {
 		super();
+		const { chipLabel, thumbnailSize, showThumbnailBadge, hoverPreview } =
+			plugin.settings;
+		this.renderKey = [
+			displayMode,
+			chipLabel,
+			thumbnailSize,
+			showThumbnailBadge,
+			hoverPreview,
+		].join("|");
 	}
 
 	toDOM(): HTMLElement {
+		switch (this.displayMode) {
+			case "thumbnail":
+				return this.renderImage("base64-image-thumbnail");
+			case "full":
+				return this.renderImage("base64-image-full");
+			default:
+				return this.renderChip();
+		}
+	}
+
+	// 文字标签：[图片] 描述 (大小) 编辑
+	private renderChip(): HTMLElement {
 		const container = document.createElement("span");
 		container.className = "base64-image-collapsed";
 
 		// 图标
 		const icon = container.createSpan({ cls: "base64-icon" });
-		icon.textContent = "[图片]";
+		icon.textContent =
+			this.plugin.settings.chipLabel || t("widget.chipLabel");
 
 		// 文本信息
 		const text = container.createSpan({ cls: "base64-text" });
-		const altText = this.info.alt || "无描述";
-		const size = Math.round(this.info.dataUrl.length / 1024);
-		text.textContent = `${altText} (${size}KB)`;
+		// 引用定义没有描述，显示其标识
+		const altText =
+			this.info.alt ||
+			(this.info.label ? `[${this.info.label}]` : t("common.noAlt"));
+		const size = formatBytes(getDecodedByteSize(this.info.dataUrl));
+		text.textContent = `${altText} (${size})`;
 
 		// 点击编辑按钮
 		const editBtn = container.createSpan({ cls: "base64-edit-btn" });
-		editBtn.textContent = "编辑";
+		editBtn.textContent = t("widget.edit");
 
 		container.style.cssText = `
             display: inline-flex;
@@ -87,48 +233,125 @@ class Base64ImageWidget extends WidgetType {
 		});
 
 		// 点击打开 Modal
-		container.addEventListener("click", (e) => {
-			e.preventDefault();
-			e.stopPropagation();
-
-			// 获取当前编辑器
-			const activeView =
-				this.plugin.app.workspace.getActiveViewOfType(MarkdownView);
-			if (activeView) {
-				new Base64ImageModal(
-					this.plugin.app,
-					this.info,
-					activeView.editor,
-					this.plugin,
-				).open();
-			}
+		container.addEventListener("click", (e) => this.openModal(e));
+
+		return container;
+	}
+
+	// 缩略图或原尺寸图片
+	private renderImage(cls: string): HTMLElement {
+		const { settings } = this.plugin;
+		const container = document.createElement("span");
+		container.addClasses(["base64-image-embed", cls]);
+		container.setCssProps({
+			"--base64-thumbnail-size": `${settings.thumbnailSize}px`,
+		});
+
+		const img = container.createEl("img", {
+			attr: { src: this.info.dataUrl, alt: this.info.alt },
 		});
 
+		const isThumbnail = this.displayMode === "thumbnail";
+		if (isThumbnail && settings.showThumbnailBadge) {
+			const format = getDataUrlFormat(this.info.dataUrl).toUpperCase();
+			const badge = container.createSpan({
+				cls: "base64-image-badge",
+				text: format,
+			});
+			img.addEventListener("load", () => {
+				badge.setText(
+					`${format} ${img.naturalWidth}×${img.naturalHeight}`,
+				);
+			});
+		}
+
+		// 悬停时才创建大图，避免为每张图片额外解码
+		if (isThumbnail && settings.hoverPreview) {
+			container.addEventListener(
+				"mouseenter",
+				() => {
+					container
+						.createSpan({ cls: "base64-hover-preview" })
+						.createEl("img", { attr: { src: this.info.dataUrl } });
+				},
+				{ once: true },
+			);
+		}
+
+		container.addEventListener("click", (e) => this.openModal(e));
 		return container;
 	}
 
+	private openModal(e: MouseEvent) {
+		e.preventDefault();
+		e.stopPropagation();
+
+		// 装饰可能是在文档修改前创建的，按 DOM 的当前位置修正图片区间
+		let info = this.info;
+		if (e.currentTarget instanceof HTMLElement) {
+			const from = this.view.posAtDOM(e.currentTarget);
+			const to = from + info.fullText.length;
+			if (this.view.state.sliceDoc(from, to) === info.fullText) {
+				info = { ...info, from, to };
+			}
+		}
+
+		// 写入图片所在的编辑器，而不是当前激活的编辑器
+		new Base64ImageModal(
+			this.plugin.app,
+			info,
+			this.view,
+			this.plugin,
+		).open();
+	}
+
 	eq(other: Base64ImageWidget): boolean {
-		return this.info.fullText === other.info.fullText;
+		return (
+			this.info.fullText === other.info.fullText &&
+			this.renderKey === other.renderKey
+		);
+	}
+}
+
+// 光标进入图片时显示原文，只把图片数据部分缩略为一个标记
+class Base64DataWidget extends WidgetType {
+	constructor(private byteSize: number) {
+		super();
+	}
+
+	toDOM(): HTMLElement {
+		const span = document.createElement("span");
+		span.className = "base64-data-abbreviation";
+		span.textContent = `…${formatBytes(this.byteSize)}`;
+		span.title = t("widget.dataOmitted");
+		return span;
+	}
+
+	eq(other: Base64DataWidget): boolean {
+		return this.byteSize === other.byteSize;
 	}
 }
 
 // Base64 图片管理 Modal
 class Base64ImageModal extends Modal {
-	private info: Base64ImageInfo;
-	private editor: Editor;
+	private info: ParsedImage;
+	private view: EditorView;
 	private plugin: Base64ImagePlugin;
 	private previewImg: HTMLImageElement | null = null;
+	// 打开期间跟踪图片位置，笔记被修改后仍能写入正确的位置
+	private tracked: TrackedImage;
 
 	constructor(
 		app: App,
-		info: Base64ImageInfo,
-		editor: Editor,
+		info: ParsedImage,
+		view: EditorView,
 		plugin: Base64ImagePlugin,
 	) {
 		super(app);
 		this.info = info;
-		this.editor = editor;
+		this.view = view;
 		this.plugin = plugin;
+		this.tracked = trackImage(view, info);
 	}
 
 	onOpen() {
@@ -159,7 +382,7 @@ class Base64ImageModal extends Modal {
         `;
 
 		headerEl.createEl("h2", {
-			text: "Base64 图片管理",
+			text: t("modal.title"),
 			cls: "modal-title",
 		});
 
@@ -199,7 +422,7 @@ class Base64ImageModal extends Modal {
 		const previewSection = contentArea.createDiv({
 			cls: "preview-section",
 		});
-		previewSection.createEl("h3", { text: "图片预览" });
+		previewSection.createEl("h3", { text: t("modal.preview") });
 
 		const previewContainer = previewSection.createDiv({
 			cls: "preview-container",
@@ -217,10 +440,11 @@ class Base64ImageModal extends Modal {
 
 		// Base64 替换区域（放在预览下方）
 		const base64Section = contentArea.createDiv({ cls: "base64-section" });
-		base64Section.createEl("h3", { text: "替换图片" });
+		base64Section.createEl("h3", { text: t("modal.replace") });
 
 		const hint = base64Section.createDiv({ cls: "base64-hint" });
-		hint.textContent = "提示：可以直接粘贴图片或 Base64 字符串";
+		hint.textContent =
+			t("modal.replaceHint");
 		hint.style.cssText = `
             font-size: 0.85em;
             color: var(--text-muted);
@@ -232,7 +456,7 @@ class Base64ImageModal extends Modal {
         `;
 
 		const base64Textarea = base64Section.createEl("textarea", {
-			placeholder: "粘贴 Base64 字符串或直接粘贴图片 (Ctrl/Cmd + V)...",
+			placeholder: t("modal.replacePlaceholder"),
 		});
 		base64Textarea.value = this.truncateBase64Display(this.info.dataUrl);
 		base64Textarea.style.cssText = `
@@ -252,80 +476,63 @@ class Base64ImageModal extends Modal {
             word-break: break-all;
         `;
 
-		// 粘贴事件处理
 		let currentBase64: string = this.info.dataUrl;
 
+		// 所有替换来源（粘贴、拖放、选择文件、仓库附件）共用的验证和预览流程
+		const applyReplacement = (dataUrl: string) => {
+			if (!isValidImage(dataUrl)) {
+				throw new Error(t("error.invalidImage"));
+			}
+			currentBase64 = dataUrl;
+			base64Textarea.value = this.truncateBase64Display(dataUrl);
+			base64Textarea.style.borderColor = "var(--interactive-success)";
+
+			// 更新预览图片
+			if (this.previewImg) {
+				this.previewImg.src = dataUrl;
+			}
+		};
+
+		const loadReplacement = async (dataUrl: Promise<string>) => {
+			base64Textarea.value = t("modal.converting");
+			base64Textarea.style.borderColor = "var(--interactive-accent)";
+
+			try {
+				applyReplacement(await dataUrl);
+				new Notice(t("notice.convertedToBase64"));
+			} catch (error) {
+				base64Textarea.value = t("modal.convertFailed", {
+					message:
+						error instanceof Error ? error.message : String(error),
+				});
+				base64Textarea.style.borderColor = "var(--text-error)";
+				new Notice(t("notice.convertFailed"));
+			}
+		};
+
+		// 粘贴事件处理
 		base64Textarea.addEventListener("paste", async (e) => {
 			e.preventDefault();
 
-			const items = e.clipboardData?.items;
-			if (!items) return;
-
 			// 检查是否粘贴了图片
-			for (let i = 0; i < items.length; i++) {
-				const item = items[i];
-
-				// 处理图片粘贴
-				if (item.type.indexOf("image") !== -1) {
-					const blob = item.getAsFile();
-					if (blob) {
-						base64Textarea.value = "正在转换图片...";
-						base64Textarea.style.borderColor =
-							"var(--interactive-accent)";
-
-						try {
-							const base64 = await this.blobToBase64(blob);
-							currentBase64 = base64;
-							base64Textarea.value =
-								this.truncateBase64Display(base64);
-							base64Textarea.style.borderColor =
-								"var(--interactive-success)";
-
-							// 更新预览图片
-							if (this.previewImg) {
-								this.previewImg.src = base64;
-							}
-
-							new Notice("图片已转换为 Base64");
-						} catch (error) {
-							base64Textarea.value = "转换失败: " + error.message;
-							base64Textarea.style.borderColor =
-								"var(--text-error)";
-							new Notice("转换图片失败");
-						}
-					}
-					return;
-				}
+			const [image] = getImageFiles(e.clipboardData);
+			if (image) {
+				await loadReplacement(blobToBase64(image));
+				return;
 			}
 
 			// 处理文本粘贴（Base64 字符串）
 			const text = e.clipboardData?.getData("text");
 			if (text) {
-				base64Textarea.value = "正在验证 Base64...";
+				base64Textarea.value = t("modal.validating");
 
 				try {
-					const cleanedBase64 = this.cleanBase64Input(text);
-
-					if (this.isValidBase64Image(cleanedBase64)) {
-						currentBase64 = cleanedBase64;
-						base64Textarea.value =
-							this.truncateBase64Display(cleanedBase64);
-						base64Textarea.style.borderColor =
-							"var(--interactive-success)";
-
-						// 更新预览图片
-						if (this.previewImg) {
-							this.previewImg.src = cleanedBase64;
-						}
-
-						new Notice("Base64 验证成功");
-					} else {
-						throw new Error("无效的 Base64 图片格式");
-					}
+					applyReplacement(normalizeImageInput(text));
+					new Notice(t("notice.base64Valid"));
 				} catch (error) {
 					base64Textarea.value = error.message;
 					base64Textarea.style.borderColor = "var(--text-error)";
-					new Notice("Base64 格式无效");
+					new Notice(t("notice.base64Invalid"));
 				}
 			}
 		});
@@ -342,26 +549,300 @@ class Base64ImageModal extends Modal {
 			base64Textarea.style.borderStyle = "dashed";
 		});
 
+		// 拖放图片到预览区域
+		previewContainer.addEventListener("dragover", (e) => {
+			e.preventDefault();
+			previewContainer.addClass("is-dragover");
+		});
+		previewContainer.addEventListener("dragleave", () => {
+			previewContainer.removeClass("is-dragover");
+		});
+		previewContainer.addEventListener("drop", (e) => {
+			e.preventDefault();
+			previewContainer.removeClass("is-dragover");
+			const [image] = getImageFiles(e.dataTransfer);
+			if (image) {
+				void loadReplacement(blobToBase64(image));
+			} else {
+				new Notice(t("notice.notAnImage"));
+			}
+		});
+
+		// 从本地文件或仓库中的图片替换
+		const sourceButtons = base64Section.createDiv({
+			cls: "base64-replace-sources",
+		});
+		const fileInput = sourceButtons.createEl("input", {
+			type: "file",
+			attr: { accept: "image/*" },
+		});
+		fileInput.addEventListener("change", () => {
+			const file = fileInput.files?.[0];
+			if (file) {
+				void loadReplacement(blobToBase64(file));
+			}
+			fileInput.value = "";
+		});
+		new ButtonComponent(sourceButtons)
+			.setButtonText(t("modal.chooseFile"))
+			.onClick(() => fileInput.click());
+		new ButtonComponent(sourceButtons)
+			.setButtonText(t("modal.chooseFromVault"))
+			.onClick(() => {
+				new ImageFileSuggestModal(this.app, (file) => {
+					void loadReplacement(readFileAsDataUrl(this.app, file));
+				}).open();
+			});
+		new ButtonComponent(sourceButtons)
+			.setButtonText(t("modal.editImage"))
+			.onClick(() => {
+				new ImageEditorModal(this.app, currentBase64, (dataUrl) => {
+					applyReplacement(dataUrl);
+					new Notice(t("notice.imageEdited"));
+				}).open();
+			});
+
+		// SVG 源码编辑（仅 SVG 图片）
+		if (getDataUrlFormat(currentBase64) === "svg") {
+			const useBase64 = parseDataUrl(currentBase64)?.isBase64 ?? false;
+
+			const tabs = previewSection.createDiv({ cls: "base64-preview-tabs" });
+			previewContainer.before(tabs);
+			const previewTab = tabs.createEl("button", {
+				text: t("modal.previewTab"),
+				cls: "base64-preview-tab is-active",
+			});
+			const sourceTab = tabs.createEl("button", {
+				text: t("modal.svgSourceTab"),
+				cls: "base64-preview-tab",
+			});
+
+			const svgEditor = previewSection.createDiv({
+				cls: "base64-svg-editor is-hidden",
+			});
+			const svgSource = svgEditor.createEl("textarea", {
+				cls: "base64-svg-source",
+			});
+			svgSource.value = decodeDataUrlText(currentBase64) ?? "";
+			const svgStatus = svgEditor.createDiv({ cls: "base64-svg-status" });
+
+			const showSource = (show: boolean) => {
+				previewContainer.toggleClass("is-hidden", show);
+				svgEditor.toggleClass("is-hidden", !show);
+				previewTab.toggleClass("is-active", !show);
+				sourceTab.toggleClass("is-active", show);
+			};
+			previewTab.addEventListener("click", () => showSource(false));
+			sourceTab.addEventListener("click", () => showSource(true));
+
+			// 编辑时更新预览和待保存的数据，保持原来的编码方式
+			svgSource.addEventListener(
+				"input",
+				debounce(
+					() => {
+						const svg = svgSource.value;
+						const doc = new DOMParser().parseFromString(
+							svg,
+							"image/svg+xml",
+						);
+						if (
+							doc.querySelector("parsererror") ||
+							doc.documentElement.nodeName !== "svg"
+						) {
+							svgStatus.setText(t("modal.svgSyntaxError"));
+							return;
+						}
+
+						svgStatus.setText("");
+						currentBase64 = svgToDataUrl(svg, useBase64);
+						base64Textarea.value =
+							this.truncateBase64Display(currentBase64);
+						if (this.previewImg) {
+							this.previewImg.src = currentBase64;
+						}
+					},
+					300,
+					true,
+				),
+			);
+		}
+
+		// 压缩区域
+		const compressSection = contentArea.createDiv({
+			cls: "compress-section",
+		});
+		compressSection.createEl("h3", { text: t("modal.compress") });
+
+		const compressOptions = getCompressOptions(this.plugin.settings);
+		let compressedBase64: string | null = null;
+
+		new Setting(compressSection)
+			.setName(t("common.outputFormat"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ webp: "WebP", jpeg: "JPEG", png: "PNG" })
+					.setValue(compressOptions.format)
+					.onChange((value) => {
+						compressOptions.format = value as CompressFormat;
+					}),
+			);
+		new Setting(compressSection)
+			.setName(t("common.quality"))
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.1, 1, 0.05)
+					.setValue(compressOptions.quality)
+					.onChange((value) => {
+						compressOptions.quality = value;
+					}),
+			);
+		new Setting(compressSection)
+			.setName(t("common.maxDimensions"))
+			.setDesc(t("common.noLimit"))
+			.addText((text) =>
+				text
+					.setValue(String(compressOptions.maxWidth))
+					.onChange((value) => {
+						compressOptions.maxWidth = Math.max(
+							0,
+							parseInt(value, 10) || 0,
+						);
+					}),
+			)
+			.addText((text) =>
+				text
+					.setValue(String(compressOptions.maxHeight))
+					.onChange((value) => {
+						compressOptions.maxHeight = Math.max(
+							0,
+							parseInt(value, 10) || 0,
+						);
+					}),
+			);
+
+		const compressResult = compressSection.createDiv({
+			cls: "base64-compress-result",
+		});
+
+		// 前后对比：拖动滑块查看压缩前（左）和压缩后（右）
+		const compareEl = compressSection.createDiv({
+			cls: "base64-compare is-hidden",
+		});
+		const compareBefore = compareEl.createEl("img", {
+			cls: "base64-compare-before",
+		});
+		const compareAfter = compareEl.createEl("img", {
+			cls: "base64-compare-after",
+		});
+		const compareSlider = compressSection.createEl("input", {
+			cls: "base64-compare-slider is-hidden",
+			type: "range",
+		});
+		compareSlider.min = "0";
+		compareSlider.max = "100";
+		compareSlider.value = "50";
+		compareEl.setCssProps({ "--base64-compare-position": "50%" });
+		compareSlider.addEventListener("input", () => {
+			compareEl.setCssProps({
+				"--base64-compare-position": `${compareSlider.value}%`,
+			});
+		});
+
+		const compressButtons = compressSection.createDiv({
+			cls: "base64-compress-buttons",
+		});
+		const applyCompressBtn = new ButtonComponent(compressButtons)
+			.setButtonText(t("modal.useCompressed"))
+			.setDisabled(true)
+			.onClick(() => {
+				if (!compressedBase64) return;
+				currentBase64 = compressedBase64;
+				base64Textarea.value = this.truncateBase64Display(currentBase64);
+				if (this.previewImg) {
+					this.previewImg.src = currentBase64;
+				}
+				new Notice(t("notice.compressionApplied"));
+			});
+		new ButtonComponent(compressButtons)
+			.setButtonText(t("modal.previewCompression"))
+			.onClick(async () => {
+				if (!isCompressible(currentBase64)) {
+					new Notice(t("notice.notCompressible"));
+					return;
+				}
+				compressResult.setText(t("modal.compressing"));
+				try {
+					compressedBase64 = await compressDataUrl(
+						currentBase64,
+						compressOptions,
+					);
+					const [before, after] = await Promise.all([
+						loadImage(currentBase64),
+						loadImage(compressedBase64),
+					]);
+					compressResult.setText(
+						t("modal.compressResult", {
+							change: describeSizeChange(
+								getDecodedByteSize(currentBase64),
+								getDecodedByteSize(compressedBase64),
+							),
+							before: `${before.naturalWidth}×${before.naturalHeight}`,
+							after: `${after.naturalWidth}×${after.naturalHeight}`,
+						}),
+					);
+					compareBefore.src = currentBase64;
+					compareAfter.src = compressedBase64;
+					compareEl.removeClass("is-hidden");
+					compareSlider.removeClass("is-hidden");
+					applyCompressBtn.setDisabled(false);
+				} catch (error) {
+					compressedBase64 = null;
+					applyCompressBtn.setDisabled(true);
+					compressResult.setText(
+						t("modal.compressFailed", {
+							message:
+								error instanceof Error
+									? error.message
+									: String(error),
+						}),
+					);
+				}
+			});
+
 		// 图片信息
 		const infoSection = contentArea.createDiv({ cls: "info-section" });
-		infoSection.createEl("h3", { text: "图片信息" });
+		infoSection.createEl("h3", { text: t("modal.info") });
 
 		const infoList = infoSection.createDiv({ cls: "info-list" });
-		const size = Math.round(this.info.dataUrl.length / 1024);
-		const format =
-			this.info.dataUrl.match(/data:image\/(\w+);/)?.[1] || "未知";
+		const metadata = readImageMetadata(this.info.dataUrl);
 
-		infoList.createDiv({ text: `描述: ${this.info.alt || "无"}` });
-		infoList.createDiv({ text: `大小: ${size} KB` });
-		infoList.createDiv({ text: `格式: ${format.toUpperCase()}` });
+		infoList.createDiv({
+			text: t("modal.infoAlt", { alt: this.info.alt || t("common.none") }),
+		});
+		this.renderMetadata(infoList, metadata);
+
+		// 移除 EXIF（含 GPS）等元数据，保存后生效
+		if (metadata?.hasStrippableMetadata) {
+			new ButtonComponent(infoSection)
+				.setButtonText(t("modal.stripMetadata"))
+				.onClick(() => {
+					const stripped = stripImageMetadata(currentBase64);
+					if (!stripped) {
+						new Notice(t("notice.noMetadata"));
+						return;
+					}
+					applyReplacement(stripped);
+					new Notice(t("notice.metadataRemoved"));
+				});
+		}
 
 		// Alt 文本编辑
 		const altSection = contentArea.createDiv({ cls: "alt-section" });
-		altSection.createEl("h3", { text: "编辑描述" });
+		altSection.createEl("h3", { text: t("modal.editAlt") });
 
 		const altInput = altSection.createEl("input", {
 			type: "text",
-			placeholder: "输入图片描述...",
+			placeholder: t("modal.altPlaceholder"),
 			value: this.info.alt,
 		});
 		altInput.style.cssText = `
@@ -386,7 +867,9 @@ class Base64ImageModal extends Modal {
         `;
 
 		// 保存修改按钮（应用 Alt 和 Base64 的所有更改）
-		const saveBtn = buttonSection.createEl("button", { text: "保存修改" });
+		const saveBtn = buttonSection.createEl("button", {
+			text: t("modal.save"),
+		});
 		saveBtn.style.gridColumn = "1 / -1";
 		saveBtn.addEventListener("click", () => {
 			this.saveChanges(altInput.value, currentBase64);
@@ -394,32 +877,47 @@ class Base64ImageModal extends Modal {
 
 		// 转换为本地文件按钮
 		const convertBtn = buttonSection.createEl("button", {
-			text: "转为本地文件",
+			text: t("modal.convertToFile"),
 		});
 		convertBtn.addEventListener("click", () => {
 			this.convertToLocalFile();
 		});
 
-		// 复制 Base64 按钮
-		const copyBtn = buttonSection.createEl("button", {
-			text: "复制 Base64",
-		});
-		copyBtn.addEventListener("click", () => {
-			navigator.clipboard.writeText(this.info.dataUrl);
-			new Notice("Base64 数据已复制到剪贴板");
-		});
+		// 复制按钮：Base64 文本、位图、Markdown 和 HTML 图片语法
+		const copyButtons: [string, CopyFormat][] = [
+			[t("modal.copyBase64"), "data-url"],
+			[t("modal.copyImage"), "image"],
+			[t("modal.copyMarkdown"), "markdown"],
+			[t("modal.copyHtml"), "html"],
+		];
+		for (const [text, format] of copyButtons) {
+			const copyBtn = buttonSection.createEl("button", { text });
+			copyBtn.addEventListener("click", () => {
+				void copyImage(this.info, format);
+			});
+		}
 
 		// 下载图片按钮
 		const downloadBtn = buttonSection.createEl("button", {
-			text: "下载图片",
+			text: t("modal.download"),
 		});
 		downloadBtn.addEventListener("click", () => {
 			this.downloadImage();
 		});
 
+		// 另存到仓库中的文件夹
+		const saveAsBtn = buttonSection.createEl("button", {
+			text: t("modal.saveAs"),
+		});
+		saveAsBtn.addEventListener("click", () => {
+			new FolderSuggestModal(this.app, (folder) => {
+				void this.saveImageAs(folder.path);
+			}).open();
+		});
+
 		// 删除按钮
 		const deleteBtn = buttonSection.createEl("button", {
-			text: "删除图片",
+			text: t("modal.delete"),
 			cls: "mod-warning",
 		});
 		deleteBtn.addEventListener("click", () => {
@@ -449,7 +947,7 @@ class Base64ImageModal extends Modal {
 		}
 
 		const sections = contentEl.querySelectorAll(
-			".preview-section, .info-section, .alt-section, .base64-section",
+			".preview-section, .info-section, .alt-section, .base64-section, .compress-section",
 		);
 		sections.forEach((section) => {
 			(section as HTMLElement).style.cssText = `
@@ -461,7 +959,7 @@ class Base64ImageModal extends Modal {
 		});
 
 		const buttons = contentEl.querySelectorAll(
-			"button:not(.modal-close-btn)",
+			"button:not(.modal-close-btn):not(.base64-preview-tab)",
 		);
 		buttons.forEach((btn) => {
 			(btn as HTMLElement).style.cssText = `
@@ -495,108 +993,119 @@ class Base64ImageModal extends Modal {
 		}
 	}
 
-	// 更新 Alt 文本
-	updateAltText(newAlt: string) {
-		const newText = `![${newAlt}](${this.info.dataUrl})`;
-		this.editor.replaceRange(
-			newText,
-			this.editor.offsetToPos(this.info.position.from),
-			this.editor.offsetToPos(this.info.position.to),
-		);
-		new Notice("图片描述已更新");
-		this.close();
-	}
-
-	// 保存所有修改（Alt + Base64）
-	saveChanges(newAlt: string, newBase64: string) {
-		const newText = `![${newAlt}](${newBase64})`;
-		this.editor.replaceRange(
-			newText,
-			this.editor.offsetToPos(this.info.position.from),
-			this.editor.offsetToPos(this.info.position.to),
-		);
-		new Notice("图片已更新");
-		this.close();
-	}
-
-	// 将 Blob 转换为 Base64
-	blobToBase64(blob: Blob): Promise<string> {
-		return new Promise((resolve, reject) => {
-			const reader = new FileReader();
-			reader.onloadend = () => {
-				const result = reader.result as string;
-				resolve(result);
-			};
-			reader.onerror = reject;
-			reader.readAsDataURL(blob);
+	// 从图片数据中读取的大小、格式、尺寸、颜色和 EXIF 信息
+	private renderMetadata(el: HTMLElement, metadata: ImageMetadata | null) {
+		const { dataUrl } = this.info;
+		const size = metadata?.byteSize ?? getDecodedByteSize(dataUrl);
+		const format = metadata
+			? mimeTypeToExtension(metadata.mimeType)
+			: getDataUrlFormat(dataUrl);
+		el.createDiv({ text: t("modal.infoSize", { size: formatBytes(size) }) });
+		el.createDiv({
+			text: t("modal.infoFormat", { format: format.toUpperCase() }),
 		});
-	}
+		if (!metadata) return;
 
-	// 清理 Base64 输入（移除可能的前缀、空格等）
-	cleanBase64Input(input: string): string {
-		let cleaned = input.trim();
-
-		// 如果已经是完整的 data URL，直接返回
-		if (cleaned.startsWith("data:image/")) {
-			return cleaned;
+		const { width, height, colorType, bitDepth, frames, exif } = metadata;
+		if (width !== null && height !== null) {
+			el.createDiv({ text: t("modal.infoDimensions", { width, height }) });
+		}
+		if (colorType) {
+			const color = t(`metadata.${colorType}`);
+			el.createDiv({
+				text:
+					bitDepth !== null
+						? t("modal.infoColorDepth", { color, bitDepth })
+						: t("modal.infoColor", { color }),
+			});
+		}
+		if (frames !== null && frames > 1) {
+			el.createDiv({ text: t("modal.infoFrames", { frames }) });
+		}
+		if (!exif) return;
+
+		// 型号中通常已包含厂商名
+		const camera =
+			exif.make && exif.model && !exif.model.startsWith(exif.make)
+				? `${exif.make} ${exif.model}`
+				: (exif.model ?? exif.make);
+		if (camera) {
+			el.createDiv({ text: t("modal.infoCamera", { camera }) });
+		}
+		if (exif.dateTimeOriginal) {
+			el.createDiv({
+				text: t("modal.infoTaken", { time: exif.dateTimeOriginal }),
+			});
+		}
+		if (exif.dateTime && exif.dateTime !== exif.dateTimeOriginal) {
+			el.createDiv({
+				text: t("modal.infoModified", { time: exif.dateTime }),
+			});
+		}
+		if (exif.software) {
+			el.createDiv({
+				text: t("modal.infoSoftware", { software: exif.software }),
+			});
+		}
+		if (exif.gps) {
+			el.createDiv({
+				cls: "base64-info-warning",
+				text: t("modal.infoLocation", {
+					latitude: exif.gps.latitude.toFixed(6),
+					longitude: exif.gps.longitude.toFixed(6),
+				}),
+			});
 		}
-
-		// 如果只是 base64 字符串，添加前缀
-		// 尝试检测图片类型
-		const imageType = this.detectImageType(cleaned);
-		return `data:image/${imageType};base64,${cleaned}`;
 	}
 
-	// 检测图片类型（简单判断）
-	detectImageType(base64: string): string {
-		// 移除可能的换行和空格
-		const cleaned = base64.replace(/\s/g, "");
-
-		// PNG 的 magic number: iVBORw0KGgo
-		if (cleaned.startsWith("iVBORw0KGgo")) return "png";
-
-		// JPEG 的 magic number: /9j/
-		if (cleaned.startsWith("/9j/")) return "jpeg";
-
-		// GIF 的 magic number: R0lGOD
-		if (cleaned.startsWith("R0lGOD")) return "gif";
-
-		// WebP 的 magic number: UklGR
-		if (cleaned.startsWith("UklGR")) return "webp";
-
-		// 默认返回 png
-		return "png";
+	// 找到图片的当前位置；图片已被删除时提示并返回 null
+	private locateImage(): ParsedImage | null {
+		const current = locateTrackedImage(this.view, this.tracked);
+		if (!current) {
+			new Notice(t("notice.imageMissing"));
+		}
+		return current;
 	}
 
-	// 验证是否是有效的 Base64 图片
-	isValidBase64Image(dataUrl: string): boolean {
-		try {
-			// 检查格式
-			if (!dataUrl.startsWith("data:image/")) {
-				return false;
-			}
-
-			// 尝试解析
-			const matches = dataUrl.match(/^data:image\/(\w+);base64,(.+)$/);
-			if (!matches) {
-				return false;
-			}
-
-			const base64Data = matches[2];
+	// 图片所在的笔记
+	private getFile(): TFile | null {
+		return this.view.state.field(editorInfoField, false)?.file ?? null;
+	}
 
-			// 验证 base64 格式
-			const base64Regex = /^[A-Za-z0-9+/]+=*$/;
-			if (!base64Regex.test(base64Data.replace(/\s/g, ""))) {
-				return false;
-			}
+	// 用新文本替换图片当前所在的区间
+	private replaceImage(current: ParsedImage, text: string) {
+		this.view.dispatch({
+			changes: { from: current.from, to: current.to, insert: text },
+		});
+	}
 
-			// 尝试解码
-			atob(base64Data.substring(0, 100)); // 只验证前100个字符
+	// 保存所有修改（Alt + Base64）
+	saveChanges(newAlt: string, newBase64: string) {
+		const current = this.locateImage();
+		if (!current) return;
 
-			return true;
-		} catch (error) {
-			return false;
+		const newText = rewriteImage(current, {
+			alt: newAlt,
+			dataUrl: newBase64,
+		});
+		this.replaceImage(current, newText);
+		triggerImageEvent(this.app, "replaced", {
+			file: this.getFile(),
+			alt: newAlt,
+			dataUrl: newBase64,
+			previousDataUrl: current.dataUrl,
+		});
+		new Notice(t("notice.imageUpdated"));
+		if (newBase64 !== current.dataUrl) {
+			warnIfOverBudget(
+				this.app,
+				this.plugin.settings,
+				this.getFile(),
+				this.view.state.doc.toString(),
+				[getDecodedByteSize(newBase64)],
+			);
 		}
+		this.close();
 	}
 
 	// 截断 Base64 显示（显示前后部分）
@@ -614,177 +1123,962 @@ class Base64ImageModal extends Modal {
 	// 转换为本地文件
 	async convertToLocalFile() {
 		try {
-			// 获取当前文件路径
-			const activeFile = this.app.workspace.getActiveFile();
-			if (!activeFile) {
-				new Notice("无法获取当前文件");
+			// 获取图片所在笔记的文件
+			const file = this.getFile();
+			if (!file) {
+				new Notice(t("notice.noActiveFile"));
 				return;
 			}
-
-			// 解析 base64
-			const matches = this.info.dataUrl.match(
-				/data:image\/(\w+);base64,(.+)/,
+			const image = this.locateImage();
+			if (!image) return;
+
+			// 保存为附件文件
+			const { path: filePath, markdown } = await saveImageAsAttachment(
+				this.app,
+				this.plugin.settings,
+				image,
+				file,
 			);
-			if (!matches) {
-				new Notice("无效的 Base64 格式");
-				return;
-			}
-
-			const [, format, base64Data] = matches;
-			const fileName = `image-${Date.now()}.${format}`;
-
-			// 获取附件文件夹
-			const attachmentFolder =
-				this.app.vault.getConfig("attachmentFolderPath") ||
-				"attachments";
-			const folderPath = attachmentFolder.replace(
-				"${notename}",
-				activeFile.basename,
-			);
-
-			// 确保文件夹存在
-			await this.ensureFolderExists(folderPath);
 
-			// 转换 base64 为二进制
-			const binaryString = atob(base64Data);
-			const bytes = new Uint8Array(binaryString.length);
-			for (let i = 0; i < binaryString.length; i++) {
-				bytes[i] = binaryString.charCodeAt(i);
-			}
-
-			// 保存文件
-			const filePath = `${folderPath}/${fileName}`;
-			await this.app.vault.createBinary(filePath, bytes);
+			// 保存附件期间笔记可能又被修改，写入前重新定位
+			const current = this.locateImage();
+			if (!current) return;
 
 			// 替换为本地链接
-			const newText = `![${this.info.alt}](${filePath})`;
-			this.editor.replaceRange(
-				newText,
-				this.editor.offsetToPos(this.info.position.from),
-				this.editor.offsetToPos(this.info.position.to),
-			);
+			this.replaceImage(current, markdown);
+			triggerImageEvent(this.app, "extracted", {
+				file,
+				alt: current.alt,
+				dataUrl: current.dataUrl,
+				path: filePath,
+			});
 
-			new Notice(`图片已保存到: ${filePath}`);
+			new Notice(t("notice.savedToFile", { path: filePath }));
 			this.close();
 		} catch (error) {
 			console.error("转换失败:", error);
-			new Notice("转换为本地文件失败: " + error.message);
+			new Notice(
+				t("notice.convertToFileFailed", {
+					message:
+						error instanceof Error ? error.message : String(error),
+				}),
+			);
 		}
 	}
 
-	// 确保文件夹存在
-	async ensureFolderExists(path: string) {
-		const folders = path.split("/");
-		let currentPath = "";
-
-		for (const folder of folders) {
-			currentPath = currentPath ? `${currentPath}/${folder}` : folder;
-			if (!(await this.app.vault.adapter.exists(currentPath))) {
-				await this.app.vault.createFolder(currentPath);
-			}
-		}
+	// 下载和另存时使用的文件名（不含扩展名），与附件的文件名模板一致
+	private getFileBaseName(): string {
+		const file = this.getFile();
+		if (!file) return `image-${Date.now()}`;
+		return formatAttachmentName(
+			this.plugin.settings.filenamePattern,
+			file,
+			this.info.alt,
+			this.info.dataUrl,
+		);
 	}
 
-	// 下载图片
+	// 下载图片，扩展名与图片的真实格式一致
 	downloadImage() {
+		const format =
+			decodeDataUrl(this.info.dataUrl)?.format ??
+			getDataUrlFormat(this.info.dataUrl);
 		const link = document.createElement("a");
 		link.href = this.info.dataUrl;
-		link.download = `${this.info.alt || "image"}-${Date.now()}.png`;
+		link.download = `${this.getFileBaseName()}.${format}`;
 		link.click();
-		new Notice("图片下载已开始");
+		new Notice(t("notice.downloadStarted"));
+	}
+
+	// 将图片保存到仓库中的文件夹，笔记中的图片保持不变
+	async saveImageAs(folderPath: string) {
+		try {
+			const file = await saveImageToFolder(
+				this.app,
+				this.info.dataUrl,
+				folderPath,
+				this.getFileBaseName(),
+			);
+			new Notice(t("notice.savedToFile", { path: file.path }));
+		} catch (error) {
+			console.error("保存失败:", error);
+			new Notice(
+				t("notice.saveFailed", {
+					message:
+						error instanceof Error ? error.message : String(error),
+				}),
+			);
+		}
 	}
 
 	// 删除图片
 	deleteImage() {
-		this.editor.replaceRange(
-			"",
-			this.editor.offsetToPos(this.info.position.from),
-			this.editor.offsetToPos(this.info.position.to),
-		);
-		new Notice("图片已删除");
+		const current = this.locateImage();
+		if (!current) return;
+
+		this.replaceImage(current, "");
+		triggerImageEvent(this.app, "deleted", {
+			file: this.getFile(),
+			alt: current.alt,
+			dataUrl: current.dataUrl,
+		});
+		new Notice(t("notice.imageDeleted"));
 		this.close();
 	}
 
 	onClose() {
 		const { contentEl } = this;
 		contentEl.empty();
+		untrackImage(this.view, this.tracked);
 	}
 }
 
 // ViewPlugin 用于检测和装饰 base64 图片
+// 数据检查发现问题时可用的快速修复
+function getQuickFixes(
+	app: App,
+	info: ParsedImage,
+	problem: ImageProblem,
+): Action[] {
+	const actions: Action[] = [];
+	const replaceWith = (name: string, dataUrl: string | null) => {
+		if (!dataUrl) return;
+		actions.push({
+			name,
+			apply: (view, from, to) => {
+				view.dispatch({
+					changes: { from, to, insert: rewriteImage(info, { dataUrl }) },
+				});
+				triggerImageEvent(app, "replaced", {
+					file: view.state.field(editorInfoField, false)?.file ?? null,
+					alt: info.alt,
+					dataUrl,
+					previousDataUrl: info.dataUrl,
+				});
+			},
+		});
+	};
+
+	if (problem.kind === "mime-mismatch" && problem.detectedMimeType) {
+		replaceWith(
+			t("lint.fixMimeType", { mimeType: problem.detectedMimeType }),
+			replaceMimeType(info.dataUrl, problem.detectedMimeType),
+		);
+	}
+	if (problem.kind === "bad-padding") {
+		replaceWith(t("lint.fixPadding"), fixBase64Padding(info.dataUrl));
+	}
+	if (problem.kind === "invalid-characters") {
+		replaceWith(t("lint.fixUrlSafe"), fixUrlSafeBase64(info.dataUrl));
+	}
+
+	actions.push({
+		name: t("lint.delete"),
+		apply: (view, from, to) => {
+			view.dispatch({ changes: { from, to, insert: "" } });
+			triggerImageEvent(app, "deleted", {
+				file: view.state.field(editorInfoField, false)?.file ?? null,
+				alt: info.alt,
+				dataUrl: info.dataUrl,
+			});
+		},
+	});
+	return actions;
+}
+
+// Obsidian 的 Editor 没有公开底层的 EditorView
+function getEditorView(editor: Editor): EditorView | null {
+	const cm = (editor as unknown as { cm?: unknown }).cm;
+	return cm instanceof EditorView ? cm : null;
+}
+
+// 选区是否接触图片，接触时显示原文以便手动编辑
+function isRevealed(state: EditorState, info: ParsedImage): boolean {
+	return state.selection.ranges.some(
+		(range) => range.from <= info.to && range.to >= info.from,
+	);
+}
+
+// 各编辑器的图片解析缓存，状态栏统计时复用
+const imageCaches = new WeakMap<EditorView, ImageRangeCache>();
+
+// 编辑器中图片的数量和大小；有解析缓存时只需处理修改过的段落
+function getEditorImageUsage(editor: Editor): ImageUsage {
+	const view = getEditorView(editor);
+	const cache = view && imageCaches.get(view);
+	if (!view || !cache) return getImageUsage(editor.getValue());
+	return cache.getUsage(view.state.doc, (image) =>
+		getDecodedByteSize(image.dataUrl),
+	);
+}
+
+// 通过编辑器的解析缓存查找图片，命令只需解析用到的段落
+function getImageLookup(editor: Editor): ImageLookup {
+	const view = getEditorView(editor);
+	const doc = view ? view.state.doc : Text.of(editor.getValue().split("\n"));
+	const cache = (view && imageCaches.get(view)) ?? new ImageRangeCache();
+	return (from, to) => cache.getImages(doc, from, to);
+}
+
 function createBase64Plugin(plugin: Base64ImagePlugin) {
-	return ViewPlugin.fromClass(
+	const viewPlugin = ViewPlugin.fromClass(
 		class {
 			decorations: DecorationSet;
+			// 按段落缓存的解析结果，滚动和输入时不必重新解析整篇文档
+			private cache = new ImageRangeCache();
 
 			constructor(private view: EditorView) {
 				this.decorations = this.buildDecorations(view);
+				imageCaches.set(view, this.cache);
 			}
 
 			update(update: ViewUpdate) {
-				if (update.docChanged || update.viewportChanged) {
+				if (update.docChanged) {
+					this.cache.map(update.changes);
+				}
+
+				if (
+					update.viewportChanged ||
+					(update.docChanged &&
+						this.cache.updateFences(update.state.doc))
+				) {
+					// 可见范围或围栏代码块变化时从缓存重建，只有新出现的段落需要解析
 					this.decorations = this.buildDecorations(update.view);
+				} else if (update.docChanged || update.selectionSet) {
+					this.decorations = this.updateDecorations(update);
 				}
 			}
 
+			// 整篇文档中的图片，供数据检查使用；已缓存的段落不会重复解析
+			getAllImages(doc: Text): ParsedImage[] {
+				return this.cache.getImages(doc, 0, doc.length);
+			}
+
+			// 只为可见范围内的图片创建装饰
 			buildDecorations(view: EditorView): DecorationSet {
 				const builder = new RangeSetBuilder<Decoration>();
-				const text = view.state.doc.toString();
-
-				// 匹配 Markdown 格式的 base64 图片: ![alt](data:image/...)
-				const regex = /!\[([^\]]*)\]\((data:image\/[^)]+)\)/g;
-				let match;
-
-				while ((match = regex.exec(text)) !== null) {
-					const from = match.index;
-					const to = from + match[0].length;
-
-					// 只处理较长的 base64（避免误匹配）
-					if (match[2].length > 100) {
-						const info: Base64ImageInfo = {
-							fullText: match[0],
-							alt: match[1],
-							dataUrl: match[2],
-							position: { from, to },
-						};
-
-						const widget = Decoration.replace({
-							widget: new Base64ImageWidget(info, view, plugin),
-							block: false,
-						});
-
-						builder.add(from, to, widget);
+				if (!plugin.settings.collapseEnabled) {
+					return builder.finish();
+				}
+
+				let lastEnd = -1;
+				for (const { from, to } of view.visibleRanges) {
+					for (const info of this.cache.getImages(
+						view.state.doc,
+						from,
+						to,
+					)) {
+						// 相邻的可见范围可能扩展到同一个段落
+						if (info.from < lastEnd) continue;
+						const range = this.createDecoration(view, info);
+						if (range) {
+							builder.add(range.from, range.to, range.value);
+							lastEnd = info.to;
+						}
 					}
 				}
 
 				return builder.finish();
 			}
+
+			// 将已有装饰映射到新文档，只重新处理被修改的段落和选区前后所在的段落
+			updateDecorations(update: ViewUpdate): DecorationSet {
+				let decorations = this.decorations.map(update.changes);
+				if (!plugin.settings.collapseEnabled) {
+					return decorations;
+				}
+
+				const { doc } = update.state;
+				const ranges: { from: number; to: number }[] = [];
+				update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+					ranges.push({ from: fromB, to: toB });
+				}, true);
+				if (update.selectionSet) {
+					const previous = update.startState.selection.map(
+						update.changes,
+					);
+					// 选区可能很大（如全选），只处理其中可见的部分
+					for (const range of [
+						...previous.ranges,
+						...update.state.selection.ranges,
+					]) {
+						for (const visible of update.view.visibleRanges) {
+							const from = Math.max(range.from, visible.from);
+							const to = Math.min(range.to, visible.to);
+							if (from <= to) ranges.push({ from, to });
+						}
+					}
+				}
+
+				for (const range of ranges) {
+					const [start, end] = expandToParagraphs(
+						doc,
+						range.from,
+						range.to,
+					);
+					const add: Range<Decoration>[] = [];
+					for (const info of this.cache.getImages(doc, start, end)) {
+						const decoration = this.createDecoration(
+							update.view,
+							info,
+						);
+						if (decoration) add.push(decoration);
+					}
+					decorations = decorations.update({
+						filterFrom: start,
+						filterTo: end,
+						filter: () => false,
+						add,
+					});
+				}
+
+				return decorations;
+			}
+
+			createDecoration(
+				view: EditorView,
+				info: ParsedImage,
+			): Range<Decoration> | null {
+				// 只处理较长的 base64（避免误匹配）
+				if (info.dataUrl.length <= plugin.settings.collapseThreshold) {
+					return null;
+				}
+
+				if (isRevealed(view.state, info)) {
+					// 保留 data:image/png;base64, 前缀，省略其后的数据
+					const dataFrom = info.from + info.dataRange[0];
+					const commaIndex = info.dataUrl.indexOf(",");
+					return Decoration.replace({
+						widget: new Base64DataWidget(
+							getDecodedByteSize(info.dataUrl),
+						),
+					}).range(
+						dataFrom + commaIndex + 1,
+						info.from + info.dataRange[1],
+					);
+				}
+
+				const displayMode = plugin.getDisplayMode(
+					view.state.field(editorInfoField, false)?.file ?? null,
+				);
+				return Decoration.replace({
+					widget: new Base64ImageWidget(info, view, plugin, displayMode),
+					block: false,
+				}).range(info.from, info.to);
+			}
 		},
 		{
 			decorations: (v) => v.decorations,
 		},
 	);
+
+	// 校验结果按 data URL 缓存，每次检查后只保留仍在文档中的图片
+	let validated = new Map<string, ImageProblem | null>();
+	const imageLinter = linter(
+		(view) => {
+			const images =
+				view.plugin(viewPlugin)?.getAllImages(view.state.doc) ?? [];
+			const next = new Map<string, ImageProblem | null>();
+			const diagnostics: Diagnostic[] = [];
+
+			for (const info of images) {
+				let problem = validated.get(info.dataUrl);
+				if (problem === undefined) {
+					problem = validateDataUrl(info.dataUrl);
+				}
+				next.set(info.dataUrl, problem);
+				if (problem) {
+					diagnostics.push({
+						from: info.from,
+						to: info.to,
+						severity: problem.severity,
+						source: "Base64",
+						message: problem.message,
+						actions: getQuickFixes(plugin.app, info, problem),
+					});
+				}
+			}
+
+			validated = next;
+			return diagnostics;
+		},
+		{ delay: 750 },
+	);
+
+	return [
+		viewPlugin,
+		imageTrackerListener,
+		plugin.settings.lintEnabled ? imageLinter : [],
+		// 折叠的图片和省略的数据作为整体参与光标移动和删除，
+		// 选区不会停在其中，复制时总能得到完整的原文
+		EditorView.atomicRanges.of(
+			(view) => view.plugin(viewPlugin)?.decorations ?? Decoration.none,
+		),
+	];
+}
+
+// 影响编辑器中显示的设置，只有它们变化时才需要重建编辑器扩展
+const EDITOR_SETTINGS: (keyof Base64ImageSettings)[] = [
+	"language",
+	"collapseEnabled",
+	"collapseThreshold",
+	"chipLabel",
+	"displayMode",
+	"thumbnailSize",
+	"showThumbnailBadge",
+	"hoverPreview",
+	"lintEnabled",
+];
+
+function getEditorSettingsKey(settings: Base64ImageSettings): string {
+	return JSON.stringify(EDITOR_SETTINGS.map((key) => settings[key]));
 }
 
 // 主插件类
 export default class Base64ImagePlugin extends Plugin {
+	settings: Base64ImageSettings = { ...DEFAULT_SETTINGS };
+
+	// 供其他插件和脚本调用的接口，见 README
+	api = new Base64ImageApi(this);
+
+	// 已注册的编辑器扩展，修改设置后替换其中内容以重建装饰
+	private editorExtensions: Extension[] = [];
+	// 创建编辑器扩展时的显示设置，用于判断保存设置后是否需要重建
+	private editorSettingsKey = "";
+	// 在设置页输入或编辑笔记属性时每次按键都会触发，延迟重建以免反复丢弃解析缓存
+	private requestRefreshEditors = debounce(
+		() => this.refreshEditors(),
+		300,
+		true,
+	);
+
+	// 各笔记属性中指定的显示方式，用于检测属性变化
+	private noteDisplayModes = new Map<string, DisplayMode | null>();
+
+	// 状态栏中显示当前笔记图片数量和大小的元素
+	private statusBarEl: HTMLElement | null = null;
+
 	async onload() {
 		console.log("Loading Base64 Image Manager Plugin");
 
+		await this.loadSettings();
+		this.addSettingTab(new Base64ImageSettingTab(this.app, this));
+
 		// 注册 Editor Extension
-		this.registerEditorExtension([createBase64Plugin(this)]);
+		this.editorExtensions.push(createBase64Plugin(this));
+		this.editorSettingsKey = getEditorSettingsKey(this.settings);
+		this.registerEditorExtension(this.editorExtensions);
+
+		// 笔记属性中的显示方式变化时刷新编辑器
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				const mode = this.getNoteDisplayMode(file);
+				const previous = this.noteDisplayModes.get(file.path) ?? null;
+				if (mode !== previous) {
+					this.noteDisplayModes.set(file.path, mode);
+					this.requestRefreshEditors();
+				}
+			}),
+		);
+
+		// 状态栏：当前笔记中图片的数量和大小，超过上限时标出
+		this.statusBarEl = this.addStatusBarItem();
+		this.statusBarEl.addClass("base64-status-bar");
+		const updateStatusBar = debounce(
+			() => this.updateStatusBar(),
+			500,
+			true,
+		);
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", updateStatusBar),
+		);
+		this.registerEvent(this.app.workspace.on("editor-change", updateStatusBar));
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file) => {
+				if (file === this.app.workspace.getActiveFile()) updateStatusBar();
+			}),
+		);
+		this.app.workspace.onLayoutReady(() => this.updateStatusBar());
+
+		// 按设置将粘贴和拖入编辑器的图片嵌入为 Base64
+		this.registerEvent(
+			this.app.workspace.on("editor-paste", (evt, editor, info) => {
+				handleEditorPaste(
+					this.app,
+					this.settings,
+					evt,
+					editor,
+					info.file,
+				);
+			}),
+		);
+		this.registerEvent(
+			this.app.workspace.on("editor-drop", (evt, editor, info) => {
+				handleEditorDrop(this.app, this.settings, evt, editor, info.file);
+			}),
+		);
+
+		// 注册仓库图片索引视图
+		this.registerView(
+			VIEW_TYPE_BASE64_INDEX,
+			(leaf) => new Base64ImageIndexView(leaf),
+		);
 
 		// 添加全局样式
 		this.addGlobalStyles();
 
+		this.addRibbonIcon("image", t("index.title"), () => {
+			void this.activateIndexView();
+		});
+
+		// 添加命令：将剪贴板中的图片粘贴为 base64
+		this.addCommand({
+			id: "paste-clipboard-image-as-base64",
+			name: t("command.pasteAsBase64"),
+			editorCallback: (editor: Editor, ctx) => {
+				void pasteClipboardImageAsBase64(
+					this.app,
+					this.settings,
+					editor,
+					ctx.file,
+				);
+			},
+		});
+
 		// 添加命令：查找所有 base64 图片
 		this.addCommand({
 			id: "find-all-base64-images",
-			name: "查找所有 Base64 图片",
+			name: t("command.findAll"),
 			editorCallback: (editor: Editor) => {
 				this.findAllBase64Images(editor);
 			},
 		});
+
+		// 添加命令：检查仓库中所有 base64 图片的数据
+		this.addCommand({
+			id: "check-base64-images",
+			name: t("command.checkImages"),
+			callback: () => {
+				new ImageCheckReportModal(this.app).open();
+			},
+		});
+
+		// 添加命令：切换当前笔记的图片显示方式
+		this.addCommand({
+			id: "cycle-display-mode-for-note",
+			name: t("command.cycleDisplayMode"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) {
+					void this.cycleNoteDisplayMode(file);
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：打开仓库图片索引
+		this.addCommand({
+			id: "open-base64-image-index",
+			name: t("command.openIndex"),
+			callback: () => {
+				void this.activateIndexView();
+			},
+		});
+
+		// 添加命令：批量提取 base64 图片为附件
+		this.addCommand({
+			id: "extract-base64-images-in-note",
+			name: t("command.extractInNote"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !isNoteOrCanvas(file)) return false;
+				if (!checking) {
+					new BatchExtractModal(
+						this.app,
+						this.settings,
+						file.basename,
+						[file],
+					).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "extract-base64-images-in-folder",
+			name: t("command.extractInFolder"),
+			callback: () => {
+				new FolderSuggestModal(this.app, (folder) => {
+					new BatchExtractModal(
+						this.app,
+						this.settings,
+						folder.isRoot() ? "/" : folder.path,
+						getNotesAndCanvases(this.app, folder),
+					).open();
+				}).open();
+			},
+		});
+
+		this.addCommand({
+			id: "extract-base64-images-in-vault",
+			name: t("command.extractInVault"),
+			callback: () => {
+				new BatchExtractModal(
+					this.app,
+					this.settings,
+					this.app.vault.getName(),
+					getNotesAndCanvases(this.app),
+				).open();
+			},
+		});
+
+		// 添加命令：压缩当前笔记中的所有 base64 图片
+		this.addCommand({
+			id: "compress-base64-images-in-note",
+			name: t("command.compressInNote"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) {
+					new CompressNoteModal(this.app, this.settings, file).open();
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：将本地图片附件内联为 base64
+		this.addCommand({
+			id: "inline-local-images",
+			name: t("command.inlineLocal"),
+			editorCallback: (editor: Editor, ctx) => {
+				if (ctx.file) {
+					void inlineLocalImages(this.app, editor, ctx.file, false);
+				}
+			},
+		});
+
+		this.addCommand({
+			id: "inline-local-images-and-delete",
+			name: t("command.inlineLocalAndDelete"),
+			editorCallback: (editor: Editor, ctx) => {
+				if (ctx.file) {
+					void inlineLocalImages(this.app, editor, ctx.file, true);
+				}
+			},
+		});
+
+		// 添加命令：将内联图片移到笔记末尾的引用定义中，以及反向转换
+		this.addCommand({
+			id: "move-base64-images-to-references",
+			name: t("command.moveToReferences"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) {
+					void this.normalizeNote(file, moveImagesToReferences);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "inline-base64-image-references",
+			name: t("command.inlineReferences"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) {
+					void this.normalizeNote(file, inlineImageReferences);
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：将当前笔记导出为独立的 HTML 或 ZIP
+		this.addCommand({
+			id: "export-note-as-html",
+			name: t("command.exportHtml"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) {
+					void exportNoteAsHtml(this.app, file);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "export-note-as-zip",
+			name: t("command.exportZip"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || file.extension !== "md") return false;
+				if (!checking) {
+					void exportNoteAsZip(this.app, this.settings, file);
+				}
+				return true;
+			},
+		});
+
+		// 添加命令：移除图片中的 EXIF、GPS 等元数据
+		this.addCommand({
+			id: "strip-image-metadata-in-note",
+			name: t("command.stripMetadataInNote"),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file || !isNoteOrCanvas(file)) return false;
+				if (!checking) {
+					new StripMetadataModal(
+						this.app,
+						file.basename,
+						[file],
+					).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "strip-image-metadata-in-vault",
+			name: t("command.stripMetadataInVault"),
+			callback: () => {
+				new StripMetadataModal(
+					this.app,
+					this.app.vault.getName(),
+					getNotesAndCanvases(this.app),
+				).open();
+			},
+		});
+
+		// 添加命令：在当前笔记的图片之间跳转
+		this.addCommand({
+			id: "go-to-next-base64-image",
+			name: t("command.nextImage"),
+			editorCallback: (editor: Editor) => {
+				goToAdjacentImage(editor, getImageLookup(editor), 1);
+			},
+		});
+
+		this.addCommand({
+			id: "go-to-previous-base64-image",
+			name: t("command.previousImage"),
+			editorCallback: (editor: Editor) => {
+				goToAdjacentImage(editor, getImageLookup(editor), -1);
+			},
+		});
+
+		this.addCommand({
+			id: "list-base64-images-in-note",
+			name: t("command.listImages"),
+			editorCallback: (editor: Editor) => {
+				new ImageNavigatorModal(
+					this.app,
+					editor,
+					getImageLookup(editor),
+				).open();
+			},
+		});
+
+		// 添加命令：处理光标所在的图片，便于绑定快捷键
+		this.addCommand({
+			id: "edit-base64-image-at-cursor",
+			name: t("command.editImageAtCursor"),
+			editorCheckCallback: (checking: boolean, editor: Editor) => {
+				const image = getImageAtCursor(
+					editor,
+					getImageLookup(editor),
+				);
+				const view = getEditorView(editor);
+				if (!image || !view) return false;
+				if (!checking) {
+					new Base64ImageModal(this.app, image, view, this).open();
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "extract-base64-image-at-cursor",
+			name: t("command.extractImageAtCursor"),
+			editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+				const image = getImageAtCursor(
+					editor,
+					getImageLookup(editor),
+				);
+				if (!image || !ctx.file) return false;
+				if (!checking) {
+					void extractImageInEditor(
+						this.app,
+						this.settings,
+						editor,
+						ctx.file,
+						image,
+					);
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "copy-base64-image-at-cursor",
+			name: t("command.copyImageAtCursor"),
+			editorCheckCallback: (checking: boolean, editor: Editor) => {
+				const image = getImageAtCursor(
+					editor,
+					getImageLookup(editor),
+				);
+				if (!image) return false;
+				if (!checking) {
+					void copyImage(image, "data-url");
+				}
+				return true;
+			},
+		});
+
+		this.addCommand({
+			id: "delete-base64-image-at-cursor",
+			name: t("command.deleteImageAtCursor"),
+			editorCheckCallback: (checking: boolean, editor: Editor, ctx) => {
+				const image = getImageAtCursor(
+					editor,
+					getImageLookup(editor),
+				);
+				if (!image) return false;
+				if (!checking) {
+					deleteImageInEditor(this.app, editor, ctx.file, image);
+				}
+				return true;
+			},
+		});
+	}
+
+	async loadSettings() {
+		this.settings = Object.assign(
+			{},
+			DEFAULT_SETTINGS,
+			(await this.loadData()) as Partial<Base64ImageSettings> | null,
+		);
+		setLanguage(this.settings.language);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+		if (getEditorSettingsKey(this.settings) !== this.editorSettingsKey) {
+			this.requestRefreshEditors();
+		}
+		this.updateStatusBar();
+	}
+
+	updateStatusBar() {
+		const el = this.statusBarEl;
+		if (!el) return;
+
+		const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const usage = view
+			? getEditorImageUsage(view.editor)
+			: { count: 0, bytes: 0 };
+		el.toggle(usage.count > 0);
+		if (!view || usage.count === 0) return;
+
+		const budget = getNoteBudget(this.app, this.settings, view.file);
+		const overBudget = budget > 0 && usage.bytes > budget;
+		el.setText(
+			t("status.summary", {
+				count: usage.count,
+				size: formatBytes(usage.bytes),
+			}),
+		);
+		el.toggleClass("is-over-budget", overBudget);
+		el.setAttr(
+			"aria-label",
+			overBudget
+				? t("status.overBudget", { budget: formatBytes(budget) })
+				: "",
+		);
+	}
+
+	// 用新的 ViewPlugin 替换旧的，使所有已打开的编辑器立即应用新设置
+	refreshEditors() {
+		this.requestRefreshEditors.cancel();
+		this.editorSettingsKey = getEditorSettingsKey(this.settings);
+		this.editorExtensions.length = 0;
+		this.editorExtensions.push(createBase64Plugin(this));
+		this.app.workspace.updateOptions();
+	}
+
+	// 笔记属性中指定的显示方式，未指定或无效时返回 null
+	getNoteDisplayMode(file: TFile): DisplayMode | null {
+		const value: unknown =
+			this.app.metadataCache.getFileCache(file)?.frontmatter?.[
+				DISPLAY_MODE_PROPERTY
+			];
+		return DISPLAY_MODES.find((mode) => mode === value) ?? null;
+	}
+
+	// 笔记实际使用的显示方式：笔记属性优先于全局设置
+	getDisplayMode(file: TFile | null): DisplayMode {
+		return (
+			(file && this.getNoteDisplayMode(file)) ??
+			this.settings.displayMode
+		);
+	}
+
+	// 用 normalize 改写笔记中的图片语法
+	async normalizeNote(
+		file: TFile,
+		normalize: (text: string) => NormalizeResult,
+	) {
+		let count = 0;
+		await this.app.vault.process(file, (text) => {
+			const result = normalize(text);
+			count = result.count;
+			return result.text;
+		});
+		new Notice(
+			count > 0
+				? t("notice.imagesNormalized", { count })
+				: t("notice.nothingToNormalize"),
+		);
+	}
+
+	// 在笔记属性中切换到下一种显示方式
+	async cycleNoteDisplayMode(file: TFile) {
+		const current = this.getDisplayMode(file);
+		const next =
+			DISPLAY_MODES[
+				(DISPLAY_MODES.indexOf(current) + 1) % DISPLAY_MODES.length
+			] ?? "chip";
+		await this.app.fileManager.processFrontMatter(
+			file,
+			(frontmatter: Record<string, unknown>) => {
+				frontmatter[DISPLAY_MODE_PROPERTY] = next;
+			},
+		);
+		new Notice(
+			t("notice.displayModeChanged", {
+				mode: getDisplayModeLabels()[next],
+			}),
+		);
+	}
+
+	// 在右侧边栏打开（或显示已有的）图片索引视图
+	async activateIndexView() {
+		const { workspace } = this.app;
+
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_BASE64_INDEX)[0];
+		if (!leaf) {
+			const rightLeaf = workspace.getRightLeaf(false);
+			if (!rightLeaf) return;
+			await rightLeaf.setViewState({
+				type: VIEW_TYPE_BASE64_INDEX,
+				active: true,
+			});
+			leaf = rightLeaf;
+		}
+
+		await workspace.revealLeaf(leaf);
 	}
 
 	addGlobalStyles() {
@@ -822,14 +2116,12 @@ export default class Base64ImagePlugin extends Plugin {
 	}
 
 	findAllBase64Images(editor: Editor) {
-		const text = editor.getValue();
-		const regex = /!\[([^\]]*)\]\((data:image\/[^)]+)\)/g;
-		const matches = [...text.matchAll(regex)];
+		const matches = scanBase64Images(editor.getValue());
 
 		if (matches.length === 0) {
-			new Notice("未找到任何 Base64 图片");
+			new Notice(t("common.noImagesFound"));
 		} else {
-			new Notice(`找到 ${matches.length} 个 Base64 图片`);
+			new Notice(t("notice.imagesFound", { count: matches.length }));
 		}
 	}
 
@@ -0,0 +1,100 @@
+import { App, TFile } from "obsidian";
+import { Base64ImageEvent, triggerImageEvent } from "./api";
+import { BatchImageModal, FileImagePlan } from "./batch-modal";
+import { replaceImages, rewriteImage } from "./image-parser";
+import { hasStrippableMetadata, stripImageMetadata } from "./image-metadata";
+import { Base64ImageMatch } from "./image-scanner";
+import { isCanvasFile, scanFileImages, updateCanvasTexts } from "./canvas";
+import { t } from "./i18n";
+
+// 移除一篇笔记或 canvas 中所有图片的元数据，返回被修改的图片
+async function stripMetadataInFile(
+	app: App,
+	file: TFile,
+): Promise<Base64ImageEvent[]> {
+	const events: Base64ImageEvent[] = [];
+	const strip = (text: string) =>
+		replaceImages(text, (image) => {
+			const stripped = stripImageMetadata(image.dataUrl);
+			if (!stripped) return null;
+			events.push({
+				file,
+				alt: image.alt,
+				dataUrl: stripped,
+				previousDataUrl: image.dataUrl,
+			});
+			return rewriteImage(image, { dataUrl: stripped });
+		});
+
+	await app.vault.process(file, (content) => {
+		events.length = 0;
+		const result = isCanvasFile(file)
+			? updateCanvasTexts(content, strip)
+			: strip(content);
+		return events.length > 0 ? result : content;
+	});
+	return events;
+}
+
+// 批量移除元数据 Modal：移除给定笔记和 canvas 中图片的 EXIF、GPS 等元数据
+export class StripMetadataModal extends BatchImageModal {
+	private strippedImages = 0;
+	private updatedFiles = 0;
+
+	constructor(app: App, scopeLabel: string, files: TFile[]) {
+		super(app, t("strip.title", { scope: scopeLabel }), files);
+	}
+
+	protected scanImages(file: TFile, text: string): Base64ImageMatch[] {
+		// 先过滤掉没有图片的笔记，避免逐篇解析
+		if (!text.includes("data:image/")) return [];
+		return scanFileImages(file, text).filter((image) =>
+			hasStrippableMetadata(image.dataUrl),
+		);
+	}
+
+	protected getPlanText(imageCount: number): string {
+		return t("strip.plan", { notes: this.plan.length, images: imageCount });
+	}
+
+	protected getEmptyText(): string {
+		return t("notice.noMetadata");
+	}
+
+	protected getStartText(): string {
+		return t("strip.start");
+	}
+
+	protected async processFile(
+		{ file, images }: FileImagePlan,
+		advance: (count: number) => void,
+	) {
+		const events = await stripMetadataInFile(this.app, file);
+		if (events.length > 0) {
+			this.strippedImages += events.length;
+			this.updatedFiles++;
+			for (const event of events) {
+				triggerImageEvent(this.app, "replaced", event);
+			}
+		}
+		advance(images.length);
+	}
+
+	protected renderResult(contentEl: HTMLElement): string {
+		const message =
+			this.strippedImages > 0
+				? t("notice.metadataStripped", {
+						images: this.strippedImages,
+						notes: this.updatedFiles,
+					})
+				: t("notice.noMetadata");
+		if (this.cancelled) {
+			contentEl.createDiv({
+				cls: "base64-batch-summary",
+				text: t("strip.cancelled"),
+			});
+		}
+		contentEl.createDiv({ cls: "base64-batch-summary", text: message });
+		return message;
+	}
+}
@@ -0,0 +1,232 @@
+import { App, Component, MarkdownRenderer, Notice, TFile } from "obsidian";
+import type { Base64ImageSettings } from "./settings";
+import { decodeDataUrl, formatAttachmentName } from "./image-extractor";
+import { findLocalImageLinks, readFileAsDataUrl } from "./image-inliner";
+import {
+	TextReplacement,
+	applyReplacements,
+	formatMarkdownImage,
+	parseImages,
+	rewriteImage,
+} from "./image-parser";
+import { createZip, ZipEntry } from "./zip";
+import { t } from "./i18n";
+
+// ZIP 中存放图片的文件夹
+const IMAGE_FOLDER = "images";
+
+// 导出的 HTML 使用的基本样式，不依赖 Obsidian 的主题
+const HTML_STYLE = `
+body {
+	max-width: 760px;
+	margin: 2em auto;
+	padding: 0 1em;
+	font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif;
+	line-height: 1.6;
+}
+img { max-width: 100%; }
+pre { overflow-x: auto; padding: 1em; background: #f5f5f5; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ddd; padding: 0.3em 0.6em; }
+`;
+
+// 将笔记导出为单个 HTML 文件，本地图片也内联为 data URL
+export async function exportNoteAsHtml(app: App, file: TFile) {
+	try {
+		const text = await app.vault.cachedRead(file);
+		const replacements: TextReplacement[] = [];
+		let failed = 0;
+
+		for (const link of findLocalImageLinks(text)) {
+			const attachment = app.metadataCache.getFirstLinkpathDest(
+				link.linkpath,
+				file.path,
+			);
+			if (!attachment) {
+				failed++;
+				continue;
+			}
+			const dataUrl = await readFileAsDataUrl(app, attachment);
+			replacements.push({
+				from: link.from,
+				to: link.to,
+				text: formatMarkdownImage(link.alt, dataUrl, link.size),
+			});
+		}
+
+		const body = await renderMarkdown(
+			app,
+			applyReplacements(text, replacements),
+			file.path,
+		);
+		const html = [
+			"<!DOCTYPE html>",
+			'<html><head><meta charset="utf-8">',
+			`<title>${escapeHtml(file.basename)}</title>`,
+			`<style>${HTML_STYLE}</style>`,
+			`</head><body>${body}</body></html>`,
+		].join("\n");
+
+		const name = `${file.basename}.html`;
+		downloadFile(html, "text/html", name);
+		notifyExported(name, failed);
+	} catch (error) {
+		console.error("导出失败:", error);
+		new Notice(
+			t("export.failed", {
+				message:
+					error instanceof Error ? error.message : String(error),
+			}),
+		);
+	}
+}
+
+// 将笔记导出为 ZIP：图片提取到 images 文件夹，笔记中的链接改为相对路径
+export async function exportNoteAsZip(
+	app: App,
+	settings: Base64ImageSettings,
+	file: TFile,
+) {
+	try {
+		const text = await app.vault.cachedRead(file);
+		const entries: ZipEntry[] = [];
+		const replacements: TextReplacement[] = [];
+		const usedNames = new Set<string>();
+		// 同一张图片（相同数据或同一个附件）只写入一次
+		const writtenPaths = new Map<string, string>();
+		let failed = 0;
+
+		const addImage = (
+			key: string,
+			baseName: string,
+			extension: string,
+			data: Uint8Array,
+		): string => {
+			const existing = writtenPaths.get(key);
+			if (existing) return existing;
+
+			let name = `${baseName}.${extension}`;
+			for (let suffix = 1; usedNames.has(name); suffix++) {
+				name = `${baseName}-${suffix}.${extension}`;
+			}
+			usedNames.add(name);
+
+			const path = `${IMAGE_FOLDER}/${name}`;
+			entries.push({ path, data });
+			writtenPaths.set(key, path);
+			return path;
+		};
+
+		for (const image of parseImages(text)) {
+			const decoded = decodeDataUrl(image.dataUrl);
+			if (!decoded) {
+				failed++;
+				continue;
+			}
+			const path = addImage(
+				image.dataUrl,
+				formatAttachmentName(
+					settings.filenamePattern,
+					file,
+					image.alt,
+					image.dataUrl,
+				),
+				decoded.format,
+				decoded.bytes,
+			);
+			replacements.push({
+				from: image.from,
+				to: image.to,
+				text: rewriteImage(image, { dataUrl: encodeURI(path) }),
+			});
+		}
+
+		for (const link of findLocalImageLinks(text)) {
+			const attachment = app.metadataCache.getFirstLinkpathDest(
+				link.linkpath,
+				file.path,
+			);
+			if (!attachment) {
+				failed++;
+				continue;
+			}
+			const path = addImage(
+				attachment.path,
+				attachment.basename,
+				attachment.extension,
+				new Uint8Array(await app.vault.readBinary(attachment)),
+			);
+			replacements.push({
+				from: link.from,
+				to: link.to,
+				text: formatMarkdownImage(link.alt, encodeURI(path), link.size),
+			});
+		}
+
+		const markdown = applyReplacements(text, replacements);
+		entries.unshift({
+			path: `${file.basename}.md`,
+			data: new TextEncoder().encode(markdown),
+		});
+
+		const name = `${file.basename}.zip`;
+		downloadFile(createZip(entries), "application/zip", name);
+		notifyExported(name, failed);
+	} catch (error) {
+		console.error("导出失败:", error);
+		new Notice(
+			t("export.failed", {
+				message:
+					error instanceof Error ? error.message : String(error),
+			}),
+		);
+	}
+}
+
+// 使用 Obsidian 的渲染器将 Markdown 转为 HTML
+async function renderMarkdown(
+	app: App,
+	markdown: string,
+	sourcePath: string,
+): Promise<string> {
+	const component = new Component();
+	component.load();
+	try {
+		const container = document.createElement("div");
+		await MarkdownRenderer.render(
+			app,
+			markdown,
+			container,
+			sourcePath,
+			component,
+		);
+		return container.innerHTML;
+	} finally {
+		component.unload();
+	}
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;");
+}
+
+// 通过浏览器下载保存导出的文件
+function downloadFile(data: string | Uint8Array, type: string, name: string) {
+	const url = URL.createObjectURL(new Blob([data as BlobPart], { type }));
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = name;
+	link.click();
+	// 等下载开始后再释放
+	window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+function notifyExported(name: string, failed: number) {
+	let message = t("export.done", { name });
+	if (failed > 0) message += t("export.failedImages", { count: failed });
+	new Notice(message);
+}
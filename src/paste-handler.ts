@@ -0,0 +1,162 @@
+import { App, Editor, Notice, TFile } from "obsidian";
+import { EditorView } from "@codemirror/view";
+import { blobToBase64 } from "./data-url";
+import { t } from "./i18n";
+import { triggerImageEvent } from "./api";
+import { formatMarkdownImage } from "./image-parser";
+import { getDecodedByteSize } from "./image-scanner";
+import { warnIfOverBudget } from "./size-budget";
+import { PASTE_PROPERTY, type Base64ImageSettings } from "./settings";
+
+// 当前笔记中粘贴或拖入的图片是否嵌入为 Base64：
+// 笔记属性优先，其次是全局开关和启用的文件夹
+export function shouldPasteAsBase64(
+	app: App,
+	settings: Base64ImageSettings,
+	file: TFile | null,
+): boolean {
+	if (!file) return settings.pasteAsBase64;
+
+	const value: unknown =
+		app.metadataCache.getFileCache(file)?.frontmatter?.[PASTE_PROPERTY];
+	if (typeof value === "boolean") return value;
+
+	return (
+		settings.pasteAsBase64 ||
+		settings.pasteFolders.some((folder) =>
+			file.path.startsWith(`${folder}/`),
+		)
+	);
+}
+
+// 取出剪贴板或拖放数据中的图片文件
+export function getImageFiles(data: DataTransfer | null): File[] {
+	if (!data) return [];
+	return Array.from(data.files).filter((file) =>
+		file.type.startsWith("image/"),
+	);
+}
+
+// 在编辑器粘贴事件中嵌入图片
+export function handleEditorPaste(
+	app: App,
+	settings: Base64ImageSettings,
+	evt: ClipboardEvent,
+	editor: Editor,
+	file: TFile | null,
+) {
+	if (evt.defaultPrevented) return;
+
+	const images = getImageFiles(evt.clipboardData);
+	if (images.length === 0 || !shouldPasteAsBase64(app, settings, file)) {
+		return;
+	}
+
+	evt.preventDefault();
+	void insertImagesAsBase64(app, settings, editor, file, images);
+}
+
+// 在编辑器拖放事件中嵌入图片，插入到鼠标松开的位置
+export function handleEditorDrop(
+	app: App,
+	settings: Base64ImageSettings,
+	evt: DragEvent,
+	editor: Editor,
+	file: TFile | null,
+) {
+	if (evt.defaultPrevented) return;
+
+	const images = getImageFiles(evt.dataTransfer);
+	if (images.length === 0 || !shouldPasteAsBase64(app, settings, file)) {
+		return;
+	}
+
+	evt.preventDefault();
+	const editorEl =
+		evt.target instanceof HTMLElement
+			? evt.target.closest(".cm-editor")
+			: null;
+	if (editorEl instanceof HTMLElement) {
+		const pos = EditorView.findFromDOM(editorEl)?.posAtCoords({
+			x: evt.clientX,
+			y: evt.clientY,
+		});
+		if (pos != null) {
+			editor.setCursor(editor.offsetToPos(pos));
+		}
+	}
+	void insertImagesAsBase64(app, settings, editor, file, images);
+}
+
+// 读取系统剪贴板中的图片并嵌入为 Base64，用于一次性粘贴
+export async function pasteClipboardImageAsBase64(
+	app: App,
+	settings: Base64ImageSettings,
+	editor: Editor,
+	file: TFile | null,
+) {
+	let blobs: Blob[];
+	try {
+		const items = await navigator.clipboard.read();
+		blobs = await Promise.all(
+			items.flatMap((item) =>
+				item.types
+					.filter((type) => type.startsWith("image/"))
+					.slice(0, 1)
+					.map((type) => item.getType(type)),
+			),
+		);
+	} catch (error) {
+		console.error("读取剪贴板失败:", error);
+		new Notice(t("notice.clipboardUnavailable"));
+		return;
+	}
+
+	if (blobs.length === 0) {
+		new Notice(t("notice.clipboardNoImage"));
+		return;
+	}
+	await insertImagesAsBase64(app, settings, editor, file, blobs);
+}
+
+// 将图片编码为 data URL 并插入到光标处
+async function insertImagesAsBase64(
+	app: App,
+	settings: Base64ImageSettings,
+	editor: Editor,
+	file: TFile | null,
+	images: Blob[],
+) {
+	try {
+		const added = await Promise.all(
+			images.map(async (image) => ({
+				alt: getAltText(image),
+				dataUrl: await blobToBase64(image),
+			})),
+		);
+		editor.replaceSelection(
+			added
+				.map(({ alt, dataUrl }) => formatMarkdownImage(alt, dataUrl))
+				.join("\n"),
+		);
+		for (const { alt, dataUrl } of added) {
+			triggerImageEvent(app, "added", { file, alt, dataUrl });
+		}
+		warnIfOverBudget(
+			app,
+			settings,
+			file,
+			editor.getValue(),
+			added.map(({ dataUrl }) => getDecodedByteSize(dataUrl)),
+		);
+	} catch (error) {
+		console.error("转换图片失败:", error);
+		new Notice(t("notice.convertFailed"));
+	}
+}
+
+// 使用文件名（不含扩展名）作为图片描述；剪贴板中的截图没有有意义的文件名
+function getAltText(image: Blob): string {
+	if (!(image instanceof File) || image.name === "image.png") return "";
+	return image.name.replace(/\.[^.]+$/, "");
+}
@@ -0,0 +1,178 @@
+import {
+	ParsedImage,
+	TextReplacement,
+	applyReplacements,
+	findCodeRanges,
+	parseImages,
+} from "./image-parser";
+
+// 新建引用定义时使用的标识前缀，如 [img-1]
+const LABEL_PREFIX = "img-";
+
+// 任意引用定义的标识，用于避免新标识与已有定义冲突
+const DEFINITION_LABEL_PATTERN = /^ {0,3}\[((?:[^\]\\\n]|\\.)+)\]:/gm;
+// ![alt][label] 和 ![alt][]
+const REFERENCE_IMAGE_PATTERN =
+	/!\[((?:[^\]\\\n]|\\.)*)\]\[((?:[^\]\\\n]|\\.)*)\]/g;
+
+// 转换结果；count 为改写的图片数量，为 0 时 text 与原文相同
+export interface NormalizeResult {
+	text: string;
+	count: number;
+}
+
+// 一条引用定义
+interface Definition {
+	label: string;
+	dataUrl: string;
+	title: string | null;
+}
+
+// 将 ![alt](data:...) 改写为 ![alt][img-N]，data URL 移到笔记末尾的引用定义中；
+// 数据和标题都相同的图片只保留一条定义，已有的图片定义也会移到末尾
+export function moveImagesToReferences(text: string): NormalizeResult {
+	const images = parseImages(text);
+	const inlineImages = images.filter((image) => image.syntax === "markdown");
+	if (inlineImages.length === 0) return { text, count: 0 };
+
+	const usedLabels = new Set(
+		Array.from(text.matchAll(DEFINITION_LABEL_PATTERN), (match) =>
+			normalizeLabel(match[1] ?? ""),
+		),
+	);
+	const definitions: Definition[] = [];
+	// data URL 和标题 → 标识
+	const labels = new Map<string, string>();
+	const replacements: TextReplacement[] = [];
+
+	// 保留已有的图片定义，后面相同的图片直接引用它们
+	for (const image of images) {
+		if (image.syntax !== "reference" || !image.label) continue;
+		definitions.push({
+			label: image.label,
+			dataUrl: image.dataUrl,
+			title: image.title,
+		});
+		const key = getDefinitionKey(image);
+		if (!labels.has(key)) labels.set(key, image.label);
+		replacements.push(removeLine(text, image));
+	}
+
+	let next = 1;
+	for (const image of inlineImages) {
+		const key = getDefinitionKey(image);
+		let label = labels.get(key);
+		if (!label) {
+			while (usedLabels.has(normalizeLabel(`${LABEL_PREFIX}${next}`))) {
+				next++;
+			}
+			label = `${LABEL_PREFIX}${next}`;
+			usedLabels.add(normalizeLabel(label));
+			labels.set(key, label);
+			definitions.push({
+				label,
+				dataUrl: image.dataUrl,
+				title: image.title,
+			});
+		}
+
+		// 保留原有的描述和尺寸后缀
+		const rawAltEnd = image.fullText.lastIndexOf("](", image.dataRange[0]);
+		replacements.push({
+			from: image.from,
+			to: image.to,
+			text: `${image.fullText.substring(0, rawAltEnd)}][${label}]`,
+		});
+	}
+
+	const body = applyReplacements(text, replacements).trimEnd();
+	const block = definitions.map(formatDefinition).join("\n");
+	return {
+		text: `${body}\n\n${block}\n`,
+		count: inlineImages.length,
+	};
+}
+
+// 将引用 data URL 定义的 ![alt][id] 改回 ![alt](data:...)，并删除不再使用的定义
+export function inlineImageReferences(text: string): NormalizeResult {
+	const definitions = new Map<string, ParsedImage>();
+	for (const image of parseImages(text)) {
+		if (image.syntax !== "reference" || !image.label) continue;
+		// 重复的标识以第一条定义为准
+		const key = normalizeLabel(image.label);
+		if (!definitions.has(key)) definitions.set(key, image);
+	}
+	if (definitions.size === 0) return { text, count: 0 };
+
+	const replacements: TextReplacement[] = [];
+	const usedLabels = new Set<string>();
+	const codeRanges = findCodeRanges(text);
+	for (const match of text.matchAll(REFERENCE_IMAGE_PATTERN)) {
+		// 代码中的引用只是示例
+		const from = match.index ?? 0;
+		if (codeRanges.some(([start, end]) => start <= from && from < end)) {
+			continue;
+		}
+
+		const rawAlt = match[1] ?? "";
+		// ![alt][] 使用描述作为标识
+		const key = normalizeLabel(match[2] || rawAlt);
+		const definition = definitions.get(key);
+		if (!definition) continue;
+
+		usedLabels.add(key);
+		replacements.push({
+			from,
+			to: from + match[0].length,
+			text: `![${rawAlt}](${formatDestination(definition)})`,
+		});
+	}
+	const count = replacements.length;
+	if (count === 0) return { text, count };
+
+	definitions.forEach((definition, key) => {
+		if (usedLabels.has(key)) {
+			replacements.push(removeLine(text, definition));
+		}
+	});
+
+	return {
+		text: `${applyReplacements(text, replacements).trimEnd()}\n`,
+		count,
+	};
+}
+
+// 标题不同的相同图片需要各自的定义，否则会丢失标题
+function getDefinitionKey(image: ParsedImage): string {
+	return JSON.stringify([image.dataUrl, image.title]);
+}
+
+// 引用标识不区分大小写，连续空白视为一个空格
+function normalizeLabel(label: string): string {
+	return label.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function formatDefinition(definition: Definition): string {
+	return `[${definition.label}]: ${formatDestination(definition)}`;
+}
+
+// 链接目标和可选的标题；含空白的 data URL 需要用尖括号包裹
+function formatDestination(definition: {
+	dataUrl: string;
+	title: string | null;
+}): string {
+	const { dataUrl, title } = definition;
+	const destination = /\s/.test(dataUrl) ? `<${dataUrl}>` : dataUrl;
+	if (title === null) return destination;
+	return title.includes('"')
+		? `${destination} '${title}'`
+		: `${destination} "${title}"`;
+}
+
+// 删除整行定义（包括行尾的换行）；定义单独成段时一并删除多出的空行
+function removeLine(text: string, image: ParsedImage): TextReplacement {
+	let to = text[image.to] === "\n" ? image.to + 1 : image.to;
+	const blankBefore = image.from === 0 || text[image.from - 2] === "\n";
+	if (blankBefore && text[to] === "\n") to++;
+	return { from: image.from, to, text: "" };
+}
@@ -0,0 +1,414 @@
+import { App, PluginSettingTab, Setting } from "obsidian";
+import type Base64ImagePlugin from "./main";
+import { setLanguage, t, type LanguageSetting } from "./i18n";
+
+// 编辑器中折叠图片的显示方式：文字标签、缩略图或原尺寸
+export type DisplayMode = "chip" | "thumbnail" | "full";
+
+export const DISPLAY_MODES: DisplayMode[] = ["chip", "thumbnail", "full"];
+
+// 显示方式在当前语言下的名称
+export function getDisplayModeLabels(): Record<DisplayMode, string> {
+	return {
+		chip: t("displayMode.chip"),
+		thumbnail: t("displayMode.thumbnail"),
+		full: t("displayMode.full"),
+	};
+}
+
+// 在笔记属性中单独指定显示方式的属性名
+export const DISPLAY_MODE_PROPERTY = "base64-display";
+
+// 在笔记属性中单独开启或关闭粘贴为 Base64 的属性名
+export const PASTE_PROPERTY = "base64-paste";
+
+// 在笔记属性中单独指定图片总大小上限（KB）的属性名
+export const BUDGET_PROPERTY = "base64-budget";
+
+// 压缩图片时的输出格式
+export type CompressFormat = "webp" | "jpeg" | "png";
+
+// 转为本地文件后使用的链接格式
+export type LinkStyle = "obsidian" | "markdown" | "wikilink";
+
+export interface Base64ImageSettings {
+	// 界面语言，auto 时跟随 Obsidian
+	language: LanguageSetting;
+	// 是否在编辑器中折叠 base64 图片
+	collapseEnabled: boolean;
+	// data URL 超过该长度才折叠
+	collapseThreshold: number;
+	// 折叠后显示的标签文字，留空时使用当前语言的默认文字
+	chipLabel: string;
+	// 全局显示方式，可被笔记属性 base64-display 覆盖
+	displayMode: DisplayMode;
+	// 缩略图的最大高度（像素）
+	thumbnailSize: number;
+	// 是否在缩略图上显示格式和尺寸
+	showThumbnailBadge: boolean;
+	// 悬停时是否显示大图预览
+	hoverPreview: boolean;
+	// 是否在编辑器中标出损坏的图片
+	lintEnabled: boolean;
+	// 在编辑器中粘贴或拖入图片时嵌入为 Base64
+	pasteAsBase64: boolean;
+	// 未全局开启时，只在这些文件夹（含子文件夹）中嵌入为 Base64
+	pasteFolders: string[];
+	// 笔记中图片总大小和单张图片大小的上限（KB），0 表示不限制
+	noteBudget: number;
+	imageBudget: number;
+	// 附件文件名模板，支持 {{note}} {{date}} {{timestamp}} {{alt}} {{hash}}
+	filenamePattern: string;
+	// 附件保存文件夹，留空则使用 Obsidian 的附件设置
+	attachmentFolder: string;
+	linkStyle: LinkStyle;
+	// 压缩图片的默认参数，最大宽高为 0 表示不限制
+	compressFormat: CompressFormat;
+	compressQuality: number;
+	compressMaxWidth: number;
+	compressMaxHeight: number;
+}
+
+export const DEFAULT_SETTINGS: Base64ImageSettings = {
+	language: "auto",
+	collapseEnabled: true,
+	collapseThreshold: 100,
+	chipLabel: "",
+	displayMode: "chip",
+	thumbnailSize: 80,
+	showThumbnailBadge: true,
+	hoverPreview: true,
+	lintEnabled: true,
+	pasteAsBase64: false,
+	pasteFolders: [],
+	noteBudget: 10240,
+	imageBudget: 2048,
+	filenamePattern: "image-{{timestamp}}",
+	attachmentFolder: "",
+	linkStyle: "obsidian",
+	compressFormat: "webp",
+	compressQuality: 0.8,
+	compressMaxWidth: 1920,
+	compressMaxHeight: 0,
+};
+
+export class Base64ImageSettingTab extends PluginSettingTab {
+	constructor(
+		app: App,
+		private plugin: Base64ImagePlugin,
+	) {
+		super(app, plugin);
+	}
+
+	display(): void {
+		this.render();
+	}
+
+	// 切换语言后需要用新的文字重新绘制
+	private render() {
+		const { containerEl } = this;
+		const { settings } = this.plugin;
+		containerEl.empty();
+
+		new Setting(containerEl)
+			.setName(t("settings.language"))
+			.setDesc(t("settings.languageDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						auto: t("settings.languageAuto"),
+						en: "English",
+						zh: "简体中文",
+					})
+					.setValue(settings.language)
+					.onChange(async (value) => {
+						settings.language = value as LanguageSetting;
+						setLanguage(settings.language);
+						await this.plugin.saveSettings();
+						this.render();
+					}),
+			);
+
+		new Setting(containerEl).setName(t("settings.display")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.collapse"))
+			.setDesc(t("settings.collapseDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.collapseEnabled)
+					.onChange(async (value) => {
+						settings.collapseEnabled = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.threshold"))
+			.setDesc(t("settings.thresholdDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.collapseThreshold))
+					.setValue(String(settings.collapseThreshold))
+					.onChange(async (value) => {
+						const threshold = parseInt(value, 10);
+						if (isNaN(threshold) || threshold < 0) return;
+						settings.collapseThreshold = threshold;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.chipLabel"))
+			.setDesc(t("settings.chipLabelDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("widget.chipLabel"))
+					.setValue(settings.chipLabel)
+					.onChange(async (value) => {
+						settings.chipLabel = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.displayMode"))
+			.setDesc(
+				t("settings.displayModeDesc", {
+					property: DISPLAY_MODE_PROPERTY,
+				}),
+			)
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions(getDisplayModeLabels())
+					.setValue(settings.displayMode)
+					.onChange(async (value) => {
+						settings.displayMode = value as DisplayMode;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.thumbnailSize"))
+			.setDesc(t("settings.thumbnailSizeDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.thumbnailSize))
+					.setValue(String(settings.thumbnailSize))
+					.onChange(async (value) => {
+						const size = parseInt(value, 10);
+						if (isNaN(size) || size <= 0) return;
+						settings.thumbnailSize = size;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.badge"))
+			.setDesc(t("settings.badgeDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.showThumbnailBadge)
+					.onChange(async (value) => {
+						settings.showThumbnailBadge = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.hoverPreview"))
+			.setDesc(t("settings.hoverPreviewDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.hoverPreview)
+					.onChange(async (value) => {
+						settings.hoverPreview = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.lint"))
+			.setDesc(t("settings.lintDesc"))
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.lintEnabled)
+					.onChange(async (value) => {
+						settings.lintEnabled = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName(t("settings.paste")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.pasteAsBase64"))
+			.setDesc(
+				t("settings.pasteAsBase64Desc", { property: PASTE_PROPERTY }),
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(settings.pasteAsBase64)
+					.onChange(async (value) => {
+						settings.pasteAsBase64 = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.pasteFolders"))
+			.setDesc(t("settings.pasteFoldersDesc"))
+			.addTextArea((text) =>
+				text
+					.setPlaceholder(t("settings.pasteFoldersPlaceholder"))
+					.setValue(settings.pasteFolders.join("\n"))
+					.onChange(async (value) => {
+						settings.pasteFolders = value
+							.split("\n")
+							.map((folder) => folder.trim().replace(/\/+$/, ""))
+							.filter((folder) => folder.length > 0);
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName(t("settings.budget")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.noteBudget"))
+			.setDesc(
+				t("settings.noteBudgetDesc", { property: BUDGET_PROPERTY }),
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.noteBudget))
+					.setValue(String(settings.noteBudget))
+					.onChange(async (value) => {
+						const budget = parseInt(value, 10);
+						if (isNaN(budget) || budget < 0) return;
+						settings.noteBudget = budget;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.imageBudget"))
+			.setDesc(t("settings.imageBudgetDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.imageBudget))
+					.setValue(String(settings.imageBudget))
+					.onChange(async (value) => {
+						const budget = parseInt(value, 10);
+						if (isNaN(budget) || budget < 0) return;
+						settings.imageBudget = budget;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName(t("settings.attachments")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("settings.filenamePattern"))
+			.setDesc(t("settings.filenamePatternDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.filenamePattern)
+					.setValue(settings.filenamePattern)
+					.onChange(async (value) => {
+						settings.filenamePattern = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.attachmentFolder"))
+			.setDesc(t("settings.attachmentFolderDesc"))
+			.addText((text) =>
+				text
+					.setPlaceholder(t("settings.attachmentFolderPlaceholder"))
+					.setValue(settings.attachmentFolder)
+					.onChange(async (value) => {
+						settings.attachmentFolder = value.trim();
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("settings.linkStyle"))
+			.setDesc(t("settings.linkStyleDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({
+						obsidian: t("settings.linkStyleObsidian"),
+						markdown: t("settings.linkStyleMarkdown"),
+						wikilink: t("settings.linkStyleWikilink"),
+					})
+					.setValue(settings.linkStyle)
+					.onChange(async (value) => {
+						settings.linkStyle = value as LinkStyle;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl).setName(t("settings.compression")).setHeading();
+
+		new Setting(containerEl)
+			.setName(t("common.outputFormat"))
+			.setDesc(t("settings.compressFormatDesc"))
+			.addDropdown((dropdown) =>
+				dropdown
+					.addOptions({ webp: "WebP", jpeg: "JPEG", png: "PNG" })
+					.setValue(settings.compressFormat)
+					.onChange(async (value) => {
+						settings.compressFormat = value as CompressFormat;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		new Setting(containerEl)
+			.setName(t("common.quality"))
+			.setDesc(t("settings.compressQualityDesc"))
+			.addSlider((slider) =>
+				slider
+					.setLimits(0.1, 1, 0.05)
+					.setValue(settings.compressQuality)
+					.onChange(async (value) => {
+						settings.compressQuality = value;
+						await this.plugin.saveSettings();
+					}),
+			);
+
+		this.addDimensionSetting(
+			t("settings.maxWidth"),
+			t("settings.maxWidthDesc"),
+			"compressMaxWidth",
+		);
+		this.addDimensionSetting(
+			t("settings.maxHeight"),
+			t("settings.maxHeightDesc"),
+			"compressMaxHeight",
+		);
+	}
+
+	private addDimensionSetting(
+		name: string,
+		desc: string,
+		key: "compressMaxWidth" | "compressMaxHeight",
+	) {
+		const { settings } = this.plugin;
+		new Setting(this.containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText((text) =>
+				text
+					.setPlaceholder("0")
+					.setValue(String(settings[key]))
+					.onChange(async (value) => {
+						const size = parseInt(value, 10);
+						if (isNaN(size) || size < 0) return;
+						settings[key] = size;
+						await this.plugin.saveSettings();
+					}),
+			);
+	}
+}
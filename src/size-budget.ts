@@ -0,0 +1,139 @@
+import { App, ButtonComponent, Modal, TFile } from "obsidian";
+import { BatchExtractModal } from "./batch-extract";
+import { CompressNoteModal } from "./image-compressor";
+import { formatBytes, scanBase64Images } from "./image-scanner";
+import { BUDGET_PROPERTY, type Base64ImageSettings } from "./settings";
+import { t } from "./i18n";
+
+// 笔记中 Base64 图片的数量和解码后的总大小
+export interface ImageUsage {
+	count: number;
+	bytes: number;
+}
+
+// 超出大小上限的情况
+export interface BudgetViolation {
+	usage: ImageUsage;
+	// 笔记上限（字节），未超出时为 null
+	noteBudget: number | null;
+	// 超出单张上限的新图片大小（字节）
+	oversizedImages: number[];
+}
+
+export function getImageUsage(text: string): ImageUsage {
+	const images = scanBase64Images(text);
+	return {
+		count: images.length,
+		bytes: images.reduce((sum, image) => sum + image.byteSize, 0),
+	};
+}
+
+// 笔记图片总大小的上限（字节），0 表示不限制；笔记属性优先于全局设置
+export function getNoteBudget(
+	app: App,
+	settings: Base64ImageSettings,
+	file: TFile | null,
+): number {
+	const value: unknown = file
+		? app.metadataCache.getFileCache(file)?.frontmatter?.[BUDGET_PROPERTY]
+		: undefined;
+	const kilobytes =
+		typeof value === "number" && value >= 0 ? value : settings.noteBudget;
+	return kilobytes * 1024;
+}
+
+// 检查修改后的笔记是否超出上限；newImages 为本次新增或替换的图片大小
+export function checkBudget(
+	app: App,
+	settings: Base64ImageSettings,
+	file: TFile | null,
+	text: string,
+	newImages: number[],
+): BudgetViolation | null {
+	const usage = getImageUsage(text);
+	const budget = getNoteBudget(app, settings, file);
+	const imageBudget = settings.imageBudget * 1024;
+
+	const noteBudget = budget > 0 && usage.bytes > budget ? budget : null;
+	const oversizedImages =
+		imageBudget > 0 ? newImages.filter((size) => size > imageBudget) : [];
+
+	if (noteBudget === null && oversizedImages.length === 0) return null;
+	return { usage, noteBudget, oversizedImages };
+}
+
+// 超出上限时弹出提示，并提供压缩或提取笔记中图片的入口
+export function warnIfOverBudget(
+	app: App,
+	settings: Base64ImageSettings,
+	file: TFile | null,
+	text: string,
+	newImages: number[],
+) {
+	const violation = checkBudget(app, settings, file, text, newImages);
+	if (violation) {
+		new BudgetWarningModal(app, settings, file, violation).open();
+	}
+}
+
+class BudgetWarningModal extends Modal {
+	constructor(
+		app: App,
+		private settings: Base64ImageSettings,
+		private file: TFile | null,
+		private violation: BudgetViolation,
+	) {
+		super(app);
+	}
+
+	onOpen() {
+		const { contentEl, violation, file } = this;
+		this.setTitle(t("budget.title"));
+
+		if (violation.noteBudget !== null) {
+			contentEl.createEl("p", {
+				text: t("budget.noteExceeded", {
+					count: violation.usage.count,
+					size: formatBytes(violation.usage.bytes),
+					budget: formatBytes(violation.noteBudget),
+				}),
+			});
+		}
+		if (violation.oversizedImages.length > 0) {
+			contentEl.createEl("p", {
+				text: t("budget.imageExceeded", {
+					sizes: violation.oversizedImages.map(formatBytes).join(", "),
+					budget: formatBytes(this.settings.imageBudget * 1024),
+				}),
+			});
+		}
+
+		const buttons = contentEl.createDiv({ cls: "base64-batch-buttons" });
+		new ButtonComponent(buttons)
+			.setButtonText(t("common.close"))
+			.onClick(() => {
+				this.close();
+			});
+		if (!file) return;
+
+		new ButtonComponent(buttons)
+			.setButtonText(t("budget.extract"))
+			.onClick(() => {
+				this.close();
+				new BatchExtractModal(this.app, this.settings, file.basename, [
+					file,
+				]).open();
+			});
+		new ButtonComponent(buttons)
+			.setButtonText(t("budget.compress"))
+			.setCta()
+			.onClick(() => {
+				this.close();
+				new CompressNoteModal(this.app, this.settings, file).open();
+			});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -0,0 +1,122 @@
+// 写入 ZIP 的一个文件，路径使用 / 分隔
+export interface ZipEntry {
+	path: string;
+	data: Uint8Array;
+}
+
+// CRC-32（IEEE 802.3）查表
+const CRC_TABLE = (() => {
+	const table = new Uint32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c >>> 0;
+	}
+	return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+	let crc = 0xffffffff;
+	for (let i = 0; i < data.length; i++) {
+		crc = (CRC_TABLE[(crc ^ (data[i] ?? 0)) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+// 文件名使用 UTF-8 编码（通用标志位 11）
+const UTF8_FLAG = 0x0800;
+
+// 将修改时间转换为 DOS 格式的时间和日期
+function toDosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time:
+			(date.getHours() << 11) |
+			(date.getMinutes() << 5) |
+			Math.floor(date.getSeconds() / 2),
+		date:
+			((Math.max(date.getFullYear(), 1980) - 1980) << 9) |
+			((date.getMonth() + 1) << 5) |
+			date.getDate(),
+	};
+}
+
+// 生成只存储不压缩的 ZIP 文件；图片本身已经压缩过，再压缩收益很小
+export function createZip(
+	entries: ZipEntry[],
+	modified = new Date(),
+): Uint8Array {
+	const encoder = new TextEncoder();
+	const { time, date } = toDosDateTime(modified);
+
+	const localParts: Uint8Array[] = [];
+	const centralParts: Uint8Array[] = [];
+	let offset = 0;
+
+	for (const entry of entries) {
+		const name = encoder.encode(entry.path);
+		const crc = crc32(entry.data);
+		const size = entry.data.length;
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, 0x04034b50, true);
+		local.setUint16(4, 20, true);
+		local.setUint16(6, UTF8_FLAG, true);
+		local.setUint16(8, 0, true);
+		local.setUint16(10, time, true);
+		local.setUint16(12, date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, size, true);
+		local.setUint32(22, size, true);
+		local.setUint16(26, name.length, true);
+		local.setUint16(28, 0, true);
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, 0x02014b50, true);
+		central.setUint16(4, 20, true);
+		central.setUint16(6, 20, true);
+		central.setUint16(8, UTF8_FLAG, true);
+		central.setUint16(10, 0, true);
+		central.setUint16(12, time, true);
+		central.setUint16(14, date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, size, true);
+		central.setUint32(24, size, true);
+		central.setUint16(28, name.length, true);
+		central.setUint32(42, offset, true);
+
+		localParts.push(new Uint8Array(local.buffer), name, entry.data);
+		centralParts.push(new Uint8Array(central.buffer), name);
+		offset += 30 + name.length + size;
+	}
+
+	const centralSize = centralParts.reduce(
+		(sum, part) => sum + part.length,
+		0,
+	);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, 0x06054b50, true);
+	end.setUint16(8, entries.length, true);
+	end.setUint16(10, entries.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return concatBytes([
+		...localParts,
+		...centralParts,
+		new Uint8Array(end.buffer),
+	]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(
+		parts.reduce((sum, part) => sum + part.length, 0),
+	);
+	let position = 0;
+	for (const part of parts) {
+		result.set(part, position);
+		position += part.length;
+	}
+	return result;
+}